@@ -1,9 +1,21 @@
 "use client"
 
-import { useState } from "react"
+import { useRef, useState } from "react"
 import { Separator } from "@/components/ui/separator"
+import { SidebarInset, SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar"
 import { Toolbar } from "./whiteboard/toolbar"
-import { WhiteboardCanvas, type BackgroundType, type Tool, type BrushStyle } from "./whiteboard/canvas"
+import { WhiteboardCanvas, type Tool, type BrushStyle } from "./whiteboard/canvas"
+import { useBoard } from "./whiteboard/use-board"
+import { isConnector } from "./whiteboard/bindings"
+import { useAutosave } from "./whiteboard/use-autosave"
+import { FileActions } from "./whiteboard/file-actions"
+import { ExportDialog } from "./whiteboard/export-dialog"
+import { PageSidebar } from "./whiteboard/page-sidebar"
+import { insertImageFiles } from "./whiteboard/images"
+import { DEFAULT_SHAPE_STYLE, type ShapeStyle } from "./whiteboard/shapes"
+import { DEFAULT_SMOOTHING } from "./whiteboard/smoothing"
+import type { ConnectorRouting } from "./whiteboard/elements"
+import type { TextStyle } from "./whiteboard/text"
 import { ThemeToggle } from "./theme-toggle"
 
 export default function WhiteboardApp() {
@@ -11,48 +23,155 @@ export default function WhiteboardApp() {
   const [color, setColor] = useState<string>("#111111")
   const [strokeWidth, setStrokeWidth] = useState<number>(3)
   const [brushStyle, setBrushStyle] = useState<BrushStyle>("round")
-  const [background, setBackground] = useState<BackgroundType>("plain")
-  const [backgroundColor, setBackgroundColor] = useState<string>("#ffffff") // new
+  const [smoothing, setSmoothing] = useState(DEFAULT_SMOOTHING)
+  const [snapShapes, setSnapShapes] = useState(false)
+  const [fill, setFill] = useState<string | null>(null)
+  const [fillOpacity, setFillOpacity] = useState(1)
+  const [shapeStyle, setShapeStyle] = useState<ShapeStyle>(DEFAULT_SHAPE_STYLE)
+  const [routing, setRouting] = useState<ConnectorRouting>("straight")
+  const [textStyle, setTextStyle] = useState<TextStyle>({
+    fontFamily: "sans",
+    fontSize: 20,
+    align: "left",
+    wrap: false,
+  })
+  const board = useBoard()
+  // image files are added once decoded, to the board as it is by then
+  const boardRef = useRef(board)
+  boardRef.current = board
+
+  useAutosave(board)
+
+  // with the select tool, picking a color, width or fill restyles the selection too
+  const changeColor = (next: string) => {
+    setColor(next)
+    if (tool !== "select") return
+    board.restyleSelection({ color: next })
+    board.commitChange("restyle")
+  }
+  const changeStrokeWidth = (next: number) => {
+    setStrokeWidth(next)
+    if (tool === "select") board.restyleSelection({ strokeWidth: next })
+  }
+  const changeFill = (next: string | null) => {
+    setFill(next)
+    if (tool !== "select") return
+    board.restyleSelection({ fill: next, fillOpacity })
+    board.commitChange("restyle")
+  }
+  const changeFillOpacity = (next: number) => {
+    setFillOpacity(next)
+    if (tool === "select") board.restyleSelection({ fillOpacity: next })
+  }
+  // the corner radius and side count apply to selected rounded rectangles, polygons and stars
+  const changeShapeStyle = (patch: Partial<ShapeStyle>) => {
+    setShapeStyle((prev) => ({ ...prev, ...patch }))
+    const { shape, ...style } = patch
+    if (tool === "select") board.restyleSelection(style)
+  }
+  const changeRouting = (next: ConnectorRouting) => {
+    setRouting(next)
+    if (tool !== "select") return
+    board.restyleSelection({ routing: next })
+    board.commitChange("restyle")
+  }
+  const changeTextStyle = (patch: Partial<TextStyle>) => {
+    setTextStyle((prev) => ({ ...prev, ...patch }))
+    if (tool !== "select") return
+    board.restyleSelection(patch)
+    board.commitChange("restyle")
+  }
+  const selectedIds = new Set(board.selectedIds)
+  const textSelected = tool === "select" && board.elements.some((el) => el.type === "text" && selectedIds.has(el.id))
+  const connectorSelected =
+    tool === "select" && board.elements.some((el) => isConnector(el) && selectedIds.has(el.id))
 
   return (
-    <div className="flex flex-col min-h-[100svh]">
-      <header className="sticky top-0 z-10 w-full bg-card/80 backdrop-blur supports-[backdrop-filter]:bg-card/60 border-b border-border">
-        <div className="mx-auto max-w-screen-2xl px-4 py-2 flex items-center justify-between">
-          <div className="flex items-center gap-3">
-            <img src="/chalklet.png" alt="chalklet logo" className="h-6 w-6 opacity-90" />
-            <span className="text-xl font-medium tracking-wide text-foreground">ChalkLet</span>
-          </div>
-          <div className="flex items-center gap-2">
-            <ThemeToggle />
+    <SidebarProvider>
+      <PageSidebar board={board} />
+      <SidebarInset className="min-h-[100svh]">
+        <header className="sticky top-0 z-10 w-full bg-card/80 backdrop-blur supports-[backdrop-filter]:bg-card/60 border-b border-border">
+          <div className="mx-auto max-w-screen-2xl px-4 py-2 flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <SidebarTrigger className="-ml-1" title="Pages" />
+              <img src="/chalklet.png" alt="chalklet logo" className="h-6 w-6 opacity-90" />
+              <span className="text-xl font-medium tracking-wide text-foreground">ChalkLet</span>
+            </div>
+            <div className="flex items-center gap-2">
+              <FileActions board={board} />
+              <ExportDialog board={board} />
+              <ThemeToggle />
+            </div>
           </div>
-        </div>
-        <Separator />
-        <Toolbar
-          tool={tool}
-          onToolChange={setTool}
-          color={color}
-          onColorChange={setColor}
-          strokeWidth={strokeWidth}
-          onStrokeWidthChange={setStrokeWidth}
-          brushStyle={brushStyle}
-          onBrushStyleChange={setBrushStyle}
-          background={background}
-          onBackgroundChange={setBackground}
-          backgroundColor={backgroundColor}
-          onBackgroundColorChange={setBackgroundColor}
-        />
-      </header>
+          <Separator />
+          <Toolbar
+            tool={tool}
+            onToolChange={setTool}
+            color={color}
+            onColorChange={changeColor}
+            strokeWidth={strokeWidth}
+            onStrokeWidthChange={changeStrokeWidth}
+            onStrokeWidthCommit={() => {
+              if (tool === "select") board.commitChange("restyle")
+            }}
+            brushStyle={brushStyle}
+            onBrushStyleChange={setBrushStyle}
+            smoothing={smoothing}
+            onSmoothingChange={setSmoothing}
+            snapShapes={snapShapes}
+            onSnapShapesChange={setSnapShapes}
+            fill={fill}
+            onFillChange={changeFill}
+            fillOpacity={fillOpacity}
+            onFillOpacityChange={changeFillOpacity}
+            onFillOpacityCommit={() => {
+              if (tool === "select") board.commitChange("restyle")
+            }}
+            shapeStyle={shapeStyle}
+            onShapePick={(shape) => {
+              setShapeStyle((prev) => ({ ...prev, shape }))
+              setTool("shape")
+            }}
+            onShapeStyleChange={changeShapeStyle}
+            onShapeStyleCommit={() => {
+              if (tool === "select") board.commitChange("restyle")
+            }}
+            routing={routing}
+            onRoutingChange={changeRouting}
+            showConnectorOptions={tool === "line" || tool === "arrow" || connectorSelected}
+            textStyle={textStyle}
+            onTextStyleChange={changeTextStyle}
+            showTextOptions={tool === "text" || textSelected}
+            background={board.background}
+            onBackgroundChange={board.setBackground}
+            backgroundColor={board.backgroundColor}
+            onBackgroundColorChange={board.setBackgroundColor}
+            history={board.history}
+            onUndo={board.undo}
+            onRedo={board.redo}
+            onInsertImages={(files) => insertImageFiles(() => boardRef.current, files)}
+          />
+        </header>
 
-      <div className="flex-1 min-h-0">
-        <WhiteboardCanvas
-          tool={tool}
-          color={color}
-          strokeWidth={strokeWidth}
-          brushStyle={brushStyle}
-          background={background}
-          backgroundColor={backgroundColor}
-        />
-      </div>
-    </div>
+        <div className="flex-1 min-h-0">
+          <WhiteboardCanvas
+            board={board}
+            tool={tool}
+            color={color}
+            strokeWidth={strokeWidth}
+            brushStyle={brushStyle}
+            smoothing={smoothing}
+            snapShapes={snapShapes}
+            fill={fill}
+            fillOpacity={fillOpacity}
+            shapeStyle={shapeStyle}
+            routing={routing}
+            textStyle={textStyle}
+            background={board.background}
+            backgroundColor={board.backgroundColor}
+          />
+        </div>
+      </SidebarInset>
+    </SidebarProvider>
   )
 }
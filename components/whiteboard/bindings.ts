@@ -0,0 +1,200 @@
+import {
+  bboxCenter,
+  getLocalBBox,
+  isTurnable,
+  rotatePoint,
+  toLocalPoint,
+  type ConnectorEnd,
+  type ConnectorItem,
+  type ConnectorSide,
+  type TurnableElement,
+  type WhiteboardElement,
+} from "./elements"
+import { flattenPath, shapePath } from "./shapes"
+
+// Lines and arrows attached to other elements. While a connector is drawn, or one of its ends
+// dragged, an end dropped near an element's anchors (the middles of its sides) or its outline
+// snaps there and stays bound to it: the end is kept as a point of the element's own box, so
+// whenever the element moves, turns or is resized the end follows. Only boxes (see
+// isTurnable) take connectors; an end bound to an element that is gone stays where it was.
+
+export const BIND_DISTANCE = 10 // screen px from an anchor or outline within which an end snaps to it
+const ANCHORS = [
+  { x: 0.5, y: 0 },
+  { x: 1, y: 0.5 },
+  { x: 0.5, y: 1 },
+  { x: 0, y: 0.5 },
+]
+const ELLIPSE_STEPS = 64
+
+export type Binding = { end: ConnectorEnd; x: number; y: number }
+
+export function isConnector(el: WhiteboardElement): el is ConnectorItem {
+  return el.type === "line" || el.type === "arrow"
+}
+
+function isBound(el: WhiteboardElement): el is ConnectorItem {
+  return isConnector(el) && (el.start != null || el.end != null)
+}
+
+// a point of the element's unturned box, given as fractions of it, on the board
+function boxPoint(el: TurnableElement, fx: number, fy: number) {
+  const b = getLocalBBox(el)
+  const c = bboxCenter(b)
+  return rotatePoint(b.x0 + (b.x1 - b.x0) * fx, b.y0 + (b.y1 - b.y0) * fy, c.x, c.y, el.rotation ?? 0)
+}
+
+// The side of the board a connector leaves the element by at that point: the nearest side of
+// its box, turned with it, to the nearest compass direction.
+function sideAt(el: TurnableElement, fx: number, fy: number): ConnectorSide {
+  const b = getLocalBBox(el)
+  const w = b.x1 - b.x0
+  const h = b.y1 - b.y0
+  const gaps = [fy * h, (1 - fx) * w, (1 - fy) * h, fx * w]
+  const nearest = gaps.indexOf(Math.min(...gaps))
+  const normals = [
+    { x: 0, y: -1 },
+    { x: 1, y: 0 },
+    { x: 0, y: 1 },
+    { x: -1, y: 0 },
+  ]
+  const n = rotatePoint(normals[nearest].x, normals[nearest].y, 0, 0, el.rotation ?? 0)
+  if (Math.abs(n.x) >= Math.abs(n.y)) return n.x > 0 ? "right" : "left"
+  return n.y > 0 ? "bottom" : "top"
+}
+
+// the element's outline in its own unturned frame, as polylines [x,y,x,y,...]
+function localOutline(el: TurnableElement): number[][] {
+  if (el.type === "shape" || (el.type === "rect" && el.cornerRadius)) return flattenPath(shapePath(el).outline)
+  if (el.type === "circle") {
+    const points: number[] = []
+    for (let i = 0; i <= ELLIPSE_STEPS; i++) {
+      const a = (i / ELLIPSE_STEPS) * Math.PI * 2
+      points.push(el.x + el.radiusX * Math.cos(a), el.y + el.radiusY * Math.sin(a))
+    }
+    return [points]
+  }
+  const { x0, y0, x1, y1 } = getLocalBBox(el)
+  return [[x0, y0, x1, y0, x1, y1, x0, y1, x0, y0]]
+}
+
+// the point of a polyline nearest to px,py
+function nearestOnPolyline(points: number[], px: number, py: number) {
+  let best = { x: points[0], y: points[1], dist: Math.hypot(points[0] - px, points[1] - py) }
+  for (let i = 0; i + 3 < points.length; i += 2) {
+    const [x1, y1, x2, y2] = [points[i], points[i + 1], points[i + 2], points[i + 3]]
+    const dx = x2 - x1
+    const dy = y2 - y1
+    const lengthSq = dx * dx + dy * dy
+    const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, ((px - x1) * dx + (py - y1) * dy) / lengthSq))
+    const x = x1 + dx * t
+    const y = y1 + dy * t
+    const dist = Math.hypot(x - px, y - py)
+    if (dist < best.dist) best = { x, y, dist }
+  }
+  return best
+}
+
+// x,y in the element's own frame, if it is on or within `tolerance` of the element's box
+function nearBox(el: TurnableElement, x: number, y: number, tolerance: number) {
+  const b = getLocalBBox(el)
+  const local = toLocalPoint(el, x, y)
+  const inside = local.x >= b.x0 - tolerance && local.x <= b.x1 + tolerance
+  return inside && local.y >= b.y0 - tolerance && local.y <= b.y1 + tolerance ? local : null
+}
+
+function bindTo(el: TurnableElement, fx: number, fy: number): Binding {
+  const p = boxPoint(el, fx, fy)
+  return { end: { elementId: el.id, x: fx, y: fy, side: sideAt(el, fx, fy) }, x: p.x, y: p.y }
+}
+
+// Where a connector end dropped at x,y attaches: the nearest anchor of the topmost element
+// with one within `tolerance` (world units), else the nearest point of its outline, or null
+// to leave the end free. `candidates` are the elements it may attach to, bottom-most first.
+export function findBinding(candidates: WhiteboardElement[], x: number, y: number, tolerance: number) {
+  for (let i = candidates.length - 1; i >= 0; i--) {
+    const el = candidates[i]
+    const local = isTurnable(el) && nearBox(el, x, y, tolerance)
+    if (!isTurnable(el) || !local) continue
+    const anchor = ANCHORS.find((a) => {
+      const p = boxPoint(el, a.x, a.y)
+      return Math.hypot(p.x - x, p.y - y) <= tolerance
+    })
+    if (anchor) return bindTo(el, anchor.x, anchor.y)
+    const edge = localOutline(el)
+      .map((line) => nearestOnPolyline(line, local.x, local.y))
+      .reduce((p, q) => (q.dist < p.dist ? q : p))
+    if (edge.dist > tolerance) continue
+    const b = getLocalBBox(el)
+    const w = b.x1 - b.x0
+    const h = b.y1 - b.y0
+    return bindTo(el, w === 0 ? 0.5 : (edge.x - b.x0) / w, h === 0 ? 0.5 : (edge.y - b.y0) / h)
+  }
+  return null
+}
+
+// the topmost element taking connectors that x,y is on or within `tolerance` of the box of
+export function connectorTarget(candidates: WhiteboardElement[], x: number, y: number, tolerance: number) {
+  for (let i = candidates.length - 1; i >= 0; i--) {
+    const el = candidates[i]
+    if (isTurnable(el) && nearBox(el, x, y, tolerance)) return el
+  }
+  return null
+}
+
+// the anchors of an element that takes connectors, on the board, to show while drawing one
+export function anchorPoints(el: WhiteboardElement) {
+  return isTurnable(el) ? ANCHORS.map((a) => boxPoint(el, a.x, a.y)) : []
+}
+
+function follow(el: ConnectorItem, byId: Map<string, WhiteboardElement>) {
+  let next = el
+  for (const key of ["start", "end"] as const) {
+    const end = el[key]
+    const target = end && byId.get(end.elementId)
+    if (!end || !target || !isTurnable(target)) continue
+    const p = boxPoint(target, end.x, end.y)
+    const side = sideAt(target, end.x, end.y)
+    const [x, y] = key === "start" ? (["x1", "y1"] as const) : (["x2", "y2"] as const)
+    if (p.x === next[x] && p.y === next[y] && side === end.side) continue
+    next = { ...next, [x]: p.x, [y]: p.y, [key]: { ...end, side } }
+  }
+  return next
+}
+
+// Moves the bound ends of every connector to where their elements now are. Returns the same
+// array if nothing had to move.
+export function rerouteConnectors(elements: WhiteboardElement[]) {
+  if (!elements.some(isBound)) return elements
+  const byId = new Map(elements.map((el) => [el.id, el]))
+  let changed = false
+  const next = elements.map((el) => {
+    if (!isBound(el)) return el
+    const routed = follow(el, byId)
+    if (routed !== el) changed = true
+    return routed
+  })
+  return changed ? next : elements
+}
+
+// A connector moved, turned or scaled by itself lets go of the elements it was attached to,
+// keeping only the ends bound to elements in `moved` (those going along with it).
+export function releaseConnector<T extends WhiteboardElement>(el: T, moved: Set<string>): T {
+  if (!isBound(el)) return el
+  const start = el.start && moved.has(el.start.elementId) ? el.start : undefined
+  const end = el.end && moved.has(el.end.elementId) ? el.end : undefined
+  return start === el.start && end === el.end ? el : { ...el, start, end }
+}
+
+// Copies of elements, given as originals' ids to the copies' ids, stay attached to each other;
+// ends bound to elements left behind are let go.
+export function rebindCopies(copies: WhiteboardElement[], ids: Map<string, string>) {
+  return copies.map((el) => {
+    if (!isBound(el)) return el
+    const remap = (end: ConnectorEnd | undefined) => {
+      const id = end && ids.get(end.elementId)
+      return end && id ? { ...end, elementId: id } : undefined
+    }
+    return { ...el, start: remap(el.start), end: remap(el.end) }
+  })
+}
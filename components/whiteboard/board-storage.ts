@@ -0,0 +1,58 @@
+import type { BoardPage, Viewport } from "./use-board"
+
+// Browser-local persistence for the board being edited. Everything goes into a single
+// IndexedDB record so a reload can put the board back exactly as it was left.
+const DB_NAME = "chalklet"
+const DB_VERSION = 1
+const STORE = "boards"
+const CURRENT_BOARD_KEY = "current"
+
+export type StoredBoard = {
+  pages: BoardPage[]
+  activePageId: string
+  viewport: Viewport
+  savedAt: number
+}
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === "undefined") {
+      reject(new Error("IndexedDB is not available"))
+      return
+    }
+    const req = indexedDB.open(DB_NAME, DB_VERSION)
+    req.onupgradeneeded = () => {
+      if (!req.result.objectStoreNames.contains(STORE)) req.result.createObjectStore(STORE)
+    }
+    req.onsuccess = () => resolve(req.result)
+    req.onerror = () => reject(req.error)
+  })
+}
+
+export async function loadBoard(): Promise<StoredBoard | null> {
+  const db = await openDb()
+  try {
+    return await new Promise<StoredBoard | null>((resolve, reject) => {
+      const req = db.transaction(STORE, "readonly").objectStore(STORE).get(CURRENT_BOARD_KEY)
+      req.onsuccess = () => resolve((req.result as StoredBoard | undefined) ?? null)
+      req.onerror = () => reject(req.error)
+    })
+  } finally {
+    db.close()
+  }
+}
+
+export async function saveBoard(board: StoredBoard): Promise<void> {
+  const db = await openDb()
+  try {
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(STORE, "readwrite")
+      tx.objectStore(STORE).put(board, CURRENT_BOARD_KEY)
+      tx.oncomplete = () => resolve()
+      tx.onerror = () => reject(tx.error)
+      tx.onabort = () => reject(tx.error)
+    })
+  } finally {
+    db.close()
+  }
+}
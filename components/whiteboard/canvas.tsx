@@ -2,83 +2,188 @@
 
 import type React from "react"
 import { useCallback, useEffect, useMemo, useRef, useState } from "react"
-
-export type Tool = "pen" | "eraser" | "rect" | "circle" | "line" | "arrow" | "triangle" | "pan" | "select" | "laser"
+import { toast } from "sonner"
+import { cn } from "@/lib/utils"
+import {
+  bboxCenter,
+  createId,
+  cropImage,
+  elementIntersectsBBox,
+  getElementBBox,
+  getLocalBBox,
+  hitTestElement,
+  keepTurnedInPlace,
+  rotateElement,
+  rotatePoint,
+  rotationOf,
+  scaleElement,
+  splitPolylineByEraser,
+  translateElement,
+  turnedCorners,
+  uncroppedImage,
+  unionBBox,
+  type BBox,
+  type ConnectorEnd,
+  type ConnectorRouting,
+  type FrameItem,
+  type HighlighterItem,
+  type LineItem,
+  type StickyItem,
+  type TextItem,
+  type WhiteboardElement,
+} from "./elements"
+import { anchorPoints, BIND_DISTANCE, connectorTarget, findBinding, releaseConnector } from "./bindings"
+import { copyElementsToClipboard, PASTE_OFFSET, placeCopies, readClipboardElements } from "./clipboard"
+import { describeElements } from "./history"
+import { insertImageFiles, isImageFile } from "./images"
+import { highlighterWidth } from "./highlighter"
+import { editableElements, isEditable } from "./layers"
+import { frameLabel, nextFrameName } from "./frames"
+import { DEFAULT_PRESSURE, maxPenWidth, samplePressure } from "./pressure"
+import { recognizeShape, type RecognizedShape } from "./recognize"
+import type { ShapeStyle } from "./shapes"
+import { SIMPLIFY_TOLERANCE, simplifyStroke } from "./smoothing"
+import { drawBackground, drawElement, drawLayers, onImageLoad } from "./render"
+import { nextSticky, STICKY_COLORS, STICKY_SIZE, stickyTextBox } from "./sticky"
+import { DEFAULT_WRAP_WIDTH, LINE_HEIGHT, onFontLoad, type TextStyle } from "./text"
+import { TextEditor } from "./text-editor"
+import type { Board } from "./use-board"
+
+export type Tool =
+  | "pen"
+  | "highlighter"
+  | "eraser"
+  | "rect"
+  | "circle"
+  | "shape"
+  | "line"
+  | "arrow"
+  | "triangle"
+  | "text"
+  | "sticky"
+  | "frame"
+  | "pan"
+  | "select"
+  | "laser"
 export type BrushStyle = "round" | "square" | "dashed"
 export type BackgroundType = "plain" | "dotted" | "grid" | "matrix" | "ruled"
 
-type LineItem = {
-  tool: "pen"
-  points: number[] // world coords: [x,y,x,y,...]
-  color: string
-  strokeWidth: number
-  brushStyle: BrushStyle
-}
-
-type RectItem = {
-  x: number
-  y: number
-  width: number
-  height: number
-  stroke: string
-  strokeWidth: number
-  dashed?: boolean
-}
-type CircleItem = { x: number; y: number; radius: number; stroke: string; strokeWidth: number; dashed?: boolean }
-type SimpleLineItem = {
-  x1: number
-  y1: number
-  x2: number
-  y2: number
-  stroke: string
-  strokeWidth: number
-  dashed?: boolean
-}
-type ArrowItem = SimpleLineItem
-type TriangleItem = {
-  x1: number
-  y1: number
-  x2: number
-  y2: number
-  x3: number
-  y3: number
-  stroke: string
-  strokeWidth: number
-  dashed?: boolean
+const MIN_GROUP_SCALE = 0.05 // a selection can't be flipped or collapsed by dragging a handle past its anchor
+const HOLD_MS = 600 // holding the pen this long at the end of a stroke recognizes its shape
+const HOLD_SLOP = 4 // screen px the pen may drift while held
+const ROTATE_HANDLE_GAP = 24 // screen px from the top of the selection box to the rotation handle
+const ROTATE_SNAP = Math.PI / 12 // 15°, with Shift held
+
+// The resize handles: corners 0: tl, 1: tr, 2: br, 3: bl, then the middles of the sides
+// 4: top, 5: right, 6: bottom, 7: left. Each moves the box's left (-1) or right (1) edge, or
+// neither (0), and likewise its top (-1) or bottom (1).
+const HANDLE_SIDES = [
+  [-1, -1],
+  [1, -1],
+  [1, 1],
+  [-1, 1],
+  [0, -1],
+  [1, 0],
+  [0, 1],
+  [-1, 0],
+]
+const ROTATE_HANDLE = 8
+
+type DragOptions = {
+  keepAspect?: boolean // the box keeps its proportions (Shift)
+  fromCenter?: boolean // the opposite edges move the other way, so the centre stays (Alt)
+  minWidth?: number
+  minHeight?: number
 }
 
-function hexToRgb(hex: string) {
-  const m = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex.trim())
-  if (!m) return { r: 255, g: 255, b: 255 }
-  return { r: Number.parseInt(m[1], 16), g: Number.parseInt(m[2], 16), b: Number.parseInt(m[3], 16) }
-}
-function luminanceFromHex(hex: string) {
-  const { r, g, b } = hexToRgb(hex)
-  // simple relative luminance approximation
-  const [R, G, B] = [r, g, b].map((v) => v / 255)
-  return 0.2126 * R + 0.7152 * G + 0.0722 * B
-}
-function patternColorFor(bg: string) {
-  const L = luminanceFromHex(bg)
-  return L > 0.5 ? "rgba(0,0,0,0.12)" : "rgba(255,255,255,0.14)"
+// a box with the edges under `handle` dragged by dx,dy, kept at least one unit wide and tall
+// unless told otherwise
+function dragHandle(box: BBox, handle: number, dx: number, dy: number, options: DragOptions = {}): BBox {
+  const { keepAspect = false, fromCenter = false, minWidth = 1, minHeight = 1 } = options
+  const [sideX, sideY] = HANDLE_SIDES[handle]
+  const width = box.x1 - box.x0
+  const height = box.y1 - box.y0
+  const k = fromCenter ? 2 : 1
+  let w = Math.max(minWidth, width + sideX * dx * k)
+  let h = Math.max(minHeight, height + sideY * dy * k)
+  if (keepAspect && width > 0 && height > 0) {
+    // a corner follows whichever side grew more; a side handle takes the other side along
+    const ratio = width / height
+    if (sideX !== 0 && (sideY === 0 || w / width > h / height)) h = w / ratio
+    else w = h * ratio
+  }
+  // an edge opposite the handle stays put; without one (or from the centre) the centre does
+  const cx = (box.x0 + box.x1) / 2
+  const cy = (box.y0 + box.y1) / 2
+  const x0 = fromCenter || sideX === 0 ? cx - w / 2 : sideX < 0 ? box.x1 - w : box.x0
+  const y0 = fromCenter || sideY === 0 ? cy - h / 2 : sideY < 0 ? box.y1 - h : box.y0
+  return { x0, y0, x1: x0 + w, y1: y0 + h }
 }
 
-function bgStyle(type: BackgroundType, bg: string): React.CSSProperties {
-  return { backgroundColor: bg }
+// The box the selection handles sit on, turned by `angle` about its centre
+type SelectionFrame = { box: BBox; angle: number }
+
+// A shape being dragged out with its tool. Ellipses and library shapes fill the box dragged
+// from `origin`; a connector's ends may be attached to elements. A frame is named as it starts.
+type Draft =
+  | { type: "rect"; x: number; y: number; width: number; height: number }
+  | { type: "frame"; x: number; y: number; width: number; height: number; name: string }
+  | { type: "circle"; origin: { x: number; y: number }; x: number; y: number; radiusX: number; radiusY: number }
+  | { type: "shape"; origin: { x: number; y: number }; x: number; y: number; width: number; height: number }
+  | {
+      type: "line" | "arrow"
+      routing: ConnectorRouting
+      start?: ConnectorEnd
+      end?: ConnectorEnd
+      x1: number
+      y1: number
+      x2: number
+      y2: number
+    }
+  | { type: "triangle"; x1: number; y1: number; x2: number; y2: number; x3: number; y3: number }
+
+// every handle's place on the board, by id (see HANDLE_SIDES and ROTATE_HANDLE)
+function frameHandles({ box, angle }: SelectionFrame, scale: number) {
+  const c = bboxCenter(box)
+  const turn = (x: number, y: number) => rotatePoint(x, y, c.x, c.y, angle)
+  return [
+    ...turnedCorners(box, angle),
+    turn(c.x, box.y0),
+    turn(box.x1, c.y),
+    turn(c.x, box.y1),
+    turn(box.x0, c.y),
+    turn(c.x, box.y0 - ROTATE_HANDLE_GAP / scale),
+  ]
 }
 
 export function WhiteboardCanvas({
+  board,
   tool,
   color,
   strokeWidth,
   brushStyle,
+  smoothing,
+  snapShapes,
+  fill,
+  fillOpacity,
+  shapeStyle,
+  routing,
+  textStyle,
   background,
   backgroundColor,
 }: {
+  board: Board
   tool: Tool
   color: string
   strokeWidth: number
   brushStyle: BrushStyle
+  smoothing: number // for new pen strokes, 0..1
+  snapShapes: boolean // turn pen strokes that look like shapes into those shapes
+  fill: string | null // for new rectangles, circles and triangles; null draws them hollow
+  fillOpacity: number
+  shapeStyle: ShapeStyle // for the shape tool
+  routing: ConnectorRouting // for new lines and arrows
+  textStyle: TextStyle
   background: BackgroundType
   backgroundColor: string
 }) {
@@ -86,34 +191,162 @@ export function WhiteboardCanvas({
   const canvasRef = useRef<HTMLCanvasElement | null>(null)
   const ctxRef = useRef<CanvasRenderingContext2D | null>(null)
 
-  // world transform
-  const [scale, setScale] = useState(1)
-  const [offset, setOffset] = useState({ x: 0, y: 0 })
+  const {
+    elements,
+    setElements,
+    layers,
+    activeLayerId,
+    selectedIds,
+    setSelectedIds,
+    scale,
+    setScale,
+    offset,
+    setOffset,
+    setViewSize,
+    beginChange,
+    commitChange,
+    undo,
+    redo,
+  } = board
+  // image files are added once decoded, to the board as it is by then
+  const boardRef = useRef(board)
+  boardRef.current = board
   const isPanningRef = useRef(false)
   const panLastRef = useRef<{ x: number; y: number } | null>(null)
 
   // drawing state
-  const [lines, setLines] = useState<LineItem[]>([])
-  const [rects, setRects] = useState<RectItem[]>([])
-  const [circles, setCircles] = useState<CircleItem[]>([])
-  const [simpleLines, setSimpleLines] = useState<SimpleLineItem[]>([])
-  const [arrows, setArrows] = useState<ArrowItem[]>([])
-  const [triangles, setTriangles] = useState<TriangleItem[]>([])
-  const [draft, setDraft] = useState<any | null>(null)
+  const [draft, setDraft] = useState<Draft | null>(null)
   const drawing = useRef(false)
+  const activeStrokeIdRef = useRef<string | null>(null) // pen stroke currently being drawn
+  // last pointer sample of that stroke, in client px, for simulating pressure from speed
+  const penSampleRef = useRef<{ x: number; y: number; t: number; pressure: number } | null>(null)
+  // shape recognition: `held` is set once the pen rests at the end of a stroke, which shows the
+  // stroke as the shape it was recognized as; on release the ink is recorded first and then
+  // swapped for the shape in `pendingSnapRef`, so undo turns the shape back into the ink
+  const [held, setHeld] = useState(false)
+  const holdRef = useRef<{ timer: number; x: number; y: number } | null>(null)
+  const pendingSnapRef = useRef<{ strokeId: string; shape: WhiteboardElement } | null>(null)
   const erasingPathRef = useRef<number[]>([]) // collect eraser path in world coords
   const laserRef = useRef<Array<{ x: number; y: number; t: number }>>([])
-
-  const [selected, setSelected] = useState<null | {
-    kind: "rect" | "circle" | "line" | "arrow" | "triangle"
-    idx: number
-  }>(null)
+  const cursorRef = useRef<{ x: number; y: number } | null>(null) // world position of the pointer over the canvas
+
+  // elements on hidden or locked layers drop out of the selection
+  const selection = useMemo(() => {
+    if (selectedIds.length === 0) return []
+    const ids = new Set(selectedIds)
+    return elements.filter((el) => ids.has(el.id) && isEditable(el, layers))
+  }, [elements, layers, selectedIds])
+  const selectionBBox = useMemo(() => unionBBox(selection.map(getElementBBox)), [selection])
+  // a lone turned element is framed by its own box, turned with it; anything else by its bounds
+  const selectionFrame = useMemo((): SelectionFrame | null => {
+    const angle = selection.length === 1 ? rotationOf(selection[0]) : 0
+    if (angle) return { box: getLocalBBox(selection[0]), angle }
+    return selectionBBox && { box: selectionBBox, angle: 0 }
+  }, [selection, selectionBBox])
+  // an image in crop mode (double-click it); its handles trim the image instead of scaling it
+  const [croppingId, setCroppingId] = useState<string | null>(null)
+  const cropping =
+    tool === "select" && selection.length === 1 && selection[0].id === croppingId && selection[0].type === "image"
+      ? selection[0]
+      : null
+  useEffect(() => {
+    if (croppingId && !cropping) setCroppingId(null)
+  }, [croppingId, cropping])
+  // a lone line or arrow is resized by its ends (the corners) and text only in width; an image
+  // being cropped can't be turned meanwhile
+  const shownHandles = useMemo(() => {
+    const only = selection.length === 1 ? selection[0] : null
+    const sides = only?.type === "line" || only?.type === "arrow" ? [] : only?.type === "text" ? [5, 7] : [4, 5, 6, 7]
+    // frames stay upright, so a frame on its own has nothing to turn
+    return [0, 1, 2, 3, ...sides, ...(cropping || only?.type === "frame" ? [] : [ROTATE_HANDLE])]
+  }, [selection, cropping])
+  // bumped when an image or a font finishes loading, to repaint with it
+  const [assetsLoaded, setAssetsLoaded] = useState(0)
+  useEffect(() => {
+    const repaint = () => setAssetsLoaded((n) => n + 1)
+    const stopImages = onImageLoad(repaint)
+    const stopFonts = onFontLoad(repaint)
+    return () => {
+      stopImages()
+      stopFonts()
+    }
+  }, [])
+  // the text element, sticky note or frame open in the in-place editor, with the text (or frame
+  // name) typed so far; it is hidden on the canvas meanwhile and only written to the scene when
+  // editing ends
+  const [editing, setEditing] = useState<TextItem | StickyItem | FrameItem | null>(null)
+  const editingRef = useRef<TextItem | StickyItem | FrameItem | null>(null)
+  const snapPreview = useMemo(() => {
+    if (!held) return null
+    const stroke = elements.find((el) => el.id === activeStrokeIdRef.current)
+    return stroke?.type === "pen" ? recognizeShape(stroke.points, scale) : null
+  }, [held, elements, scale])
+  const painted = useMemo(() => {
+    if (snapPreview) return elements.filter((el) => el.id !== activeStrokeIdRef.current)
+    if (!editing) return elements
+    if (editing.type === "text") return elements.filter((el) => el.id !== editing.id)
+    const blank = editing.type === "frame" ? { ...editing, name: "" } : { ...editing, text: "" }
+    return elements.some((el) => el.id === editing.id)
+      ? elements.map((el) => (el.id === editing.id ? blank : el))
+      : [...elements, blank]
+  }, [elements, editing, snapPreview])
+  // color of new sticky notes: the last one picked
+  const [stickyColor, setStickyColor] = useState(STICKY_COLORS[0])
   const interactionRef = useRef<null | {
-    mode: "moving" | "resizing"
-    handle?: number // 0: tl, 1: tr, 2: br, 3: bl
+    mode: "moving" | "resizing" | "cropping" | "rotating"
+    handle?: number // see HANDLE_SIDES
     start: { x: number; y: number }
-    original: any
+    originals: WhiteboardElement[] // the elements being moved or resized, as on pointer-down
+    bbox: BBox // their bounds on pointer-down
+    frame?: SelectionFrame // when rotating, the selection frame on pointer-down; it turns about its centre
+  }>(null)
+  // rubber-band selection; `base` is the selection kept when Shift is held
+  const marqueeRef = useRef<null | {
+    start: { x: number; y: number }
+    current: { x: number; y: number }
+    base: string[]
+  }>(null)
+
+  const replaceElements = useCallback(
+    (next: WhiteboardElement[]) => {
+      const byId = new Map(next.map((el) => [el.id, el]))
+      setElements((prev) => prev.map((el) => byId.get(el.id) ?? el))
+    },
+    [setElements],
+  )
+  const replaceElement = useCallback((next: WhiteboardElement) => replaceElements([next]), [replaceElements])
+  // elements moved, turned or scaled together; connectors among them let go of those left behind
+  const replaceMoved = useCallback(
+    (next: WhiteboardElement[]) => {
+      const moved = new Set(next.map((el) => el.id))
+      replaceElements(next.map((el) => releaseConnector(el, moved)))
+    },
+    [replaceElements],
+  )
+
+  // while a line or arrow is drawn or one of its ends dragged: the anchors of the element under
+  // the pointer, and the point the end snapped to
+  const bindHintRef = useRef<null | {
+    anchors: { x: number; y: number }[]
+    point: { x: number; y: number } | null
   }>(null)
+  useEffect(() => {
+    bindHintRef.current = null
+  }, [tool])
+  // where a connector end at x,y attaches, if anywhere, updating the hint to match
+  const snapConnectorEnd = useCallback(
+    (x: number, y: number) => {
+      const candidates = editableElements(elements, layers)
+      const tolerance = BIND_DISTANCE / scale
+      const bound = findBinding(candidates, x, y, tolerance)
+      const target = bound
+        ? candidates.find((el) => el.id === bound.end.elementId)
+        : connectorTarget(candidates, x, y, tolerance)
+      bindHintRef.current = target ? { anchors: anchorPoints(target), point: bound } : null
+      return bound
+    },
+    [elements, layers, scale],
+  )
 
   // device pixel ratio and resize handling
   const dprRef = useRef(1)
@@ -129,12 +362,13 @@ export function WhiteboardCanvas({
     canvas.height = Math.max(1, Math.floor(rect.height * dpr))
     canvas.style.width = `${Math.floor(rect.width)}px`
     canvas.style.height = `${Math.floor(rect.height)}px`
+    setViewSize({ width: Math.floor(rect.width), height: Math.floor(rect.height) })
 
     const ctx = canvas.getContext("2d")
     if (!ctx) return
     ctxRef.current = ctx
     ctx.setTransform(dpr, 0, 0, dpr, 0, 0) // scale to CSS pixels
-  }, [])
+  }, [setViewSize])
 
   useEffect(() => {
     resizeCanvas()
@@ -145,10 +379,6 @@ export function WhiteboardCanvas({
     }
   }, [resizeCanvas])
 
-  const dashed = useMemo(() => (brushStyle === "dashed" ? [12, 8] : ([] as number[])), [brushStyle])
-  const lineCap = brushStyle === "square" ? "butt" : "round"
-  const lineJoin = brushStyle === "square" ? "miter" : "round"
-
   // convert client -> canvas css pixels -> world coords
   const getWorldPoint = useCallback(
     (clientX: number, clientY: number) => {
@@ -197,55 +427,74 @@ export function WhiteboardCanvas({
     [getWorldPoint, scale],
   )
 
-  type Snapshot = {
-    lines: LineItem[]
-    rects: RectItem[]
-    circles: CircleItem[]
-    simpleLines: SimpleLineItem[]
-    arrows: ArrowItem[]
-    triangles: TriangleItem[]
+  // restarts the hold-still timer unless the pen is still resting where it was
+  const trackHold = (e: { clientX: number; clientY: number }) => {
+    const hold = holdRef.current
+    if (hold && Math.hypot(e.clientX - hold.x, e.clientY - hold.y) <= HOLD_SLOP) return
+    if (hold) window.clearTimeout(hold.timer)
+    setHeld(false)
+    holdRef.current = { x: e.clientX, y: e.clientY, timer: window.setTimeout(() => setHeld(true), HOLD_MS) }
+  }
+  const stopHold = useCallback(() => {
+    if (holdRef.current) window.clearTimeout(holdRef.current.timer)
+    holdRef.current = null
+    setHeld(false)
+  }, [])
+
+  // pressure for the next pen point: the stylus reading, or made up from how fast the pointer moves
+  const nextPressure = (e: Pick<PointerEvent, "clientX" | "clientY" | "timeStamp" | "pointerType" | "pressure">) => {
+    const last = penSampleRef.current
+    const speed = last ? Math.hypot(e.clientX - last.x, e.clientY - last.y) / Math.max(1, e.timeStamp - last.t) : 0
+    const pressure = samplePressure(e, last?.pressure ?? null, speed)
+    penSampleRef.current = { x: e.clientX, y: e.clientY, t: e.timeStamp, pressure }
+    return pressure
   }
-  const historyRef = useRef<Snapshot[]>([])
-  const MAX_HISTORY = 100
-  const pushHistory = useCallback(() => {
-    // Deep clone minimal shape state so Ctrl+Z can restore precisely
-    const snap: Snapshot = {
-      lines: JSON.parse(JSON.stringify(lines)),
-      rects: JSON.parse(JSON.stringify(rects)),
-      circles: JSON.parse(JSON.stringify(circles)),
-      simpleLines: JSON.parse(JSON.stringify(simpleLines)),
-      arrows: JSON.parse(JSON.stringify(arrows)),
-      triangles: JSON.parse(JSON.stringify(triangles)),
-    }
-    historyRef.current.push(snap)
-    if (historyRef.current.length > MAX_HISTORY) {
-      historyRef.current.shift()
-    }
-  }, [lines, rects, circles, simpleLines, arrows, triangles])
 
   const startDrawing = useCallback(
-    (pos: { x: number; y: number }) => {
+    (pos: { x: number; y: number }, pressure = DEFAULT_PRESSURE) => {
       if (tool === "pen") {
         const newLine: LineItem = {
-          tool: "pen",
+          id: createId(),
+          layerId: activeLayerId,
+          type: "pen",
           points: [pos.x, pos.y],
+          pressures: [pressure],
+          smoothing,
           color,
           strokeWidth,
           brushStyle,
         }
-        setLines((prev) => [...prev, newLine])
+        activeStrokeIdRef.current = newLine.id
+        setElements((prev) => [...prev, newLine])
+        drawing.current = true
+      } else if (tool === "highlighter") {
+        const highlight: HighlighterItem = {
+          id: createId(),
+          layerId: activeLayerId,
+          type: "highlighter",
+          points: [pos.x, pos.y],
+          color,
+          strokeWidth: highlighterWidth(strokeWidth),
+        }
+        activeStrokeIdRef.current = highlight.id
+        setElements((prev) => [...prev, highlight])
         drawing.current = true
       } else if (tool === "eraser") {
         erasingPathRef.current = [pos.x, pos.y]
         drawing.current = true
       } else if (tool === "rect") {
         setDraft({ type: "rect", x: pos.x, y: pos.y, width: 0, height: 0 })
+      } else if (tool === "frame") {
+        setDraft({ type: "frame", x: pos.x, y: pos.y, width: 0, height: 0, name: nextFrameName(elements) })
       } else if (tool === "circle") {
-        setDraft({ type: "circle", x: pos.x, y: pos.y, radius: 0 })
-      } else if (tool === "line") {
-        setDraft({ type: "line", x1: pos.x, y1: pos.y, x2: pos.x, y2: pos.y })
-      } else if (tool === "arrow") {
-        setDraft({ type: "arrow", x1: pos.x, y1: pos.y, x2: pos.x, y2: pos.y })
+        setDraft({ type: "circle", origin: pos, x: pos.x, y: pos.y, radiusX: 0, radiusY: 0 })
+      } else if (tool === "shape") {
+        setDraft({ type: "shape", origin: pos, x: pos.x, y: pos.y, width: 0, height: 0 })
+      } else if (tool === "line" || tool === "arrow") {
+        // either end may start or finish on an element, and stays attached to it
+        const bound = snapConnectorEnd(pos.x, pos.y)
+        const at = bound ?? pos
+        setDraft({ type: tool, routing, start: bound?.end, x1: at.x, y1: at.y, x2: at.x, y2: at.y })
       } else if (tool === "triangle") {
         setDraft({ type: "triangle", x1: pos.x, y1: pos.y, x2: pos.x, y2: pos.y, x3: pos.x, y3: pos.y })
       } else if (tool === "laser") {
@@ -254,32 +503,61 @@ export function WhiteboardCanvas({
         drawing.current = true
       }
     },
-    [tool, color, strokeWidth, brushStyle],
+    [tool, color, strokeWidth, brushStyle, smoothing, routing, activeLayerId, snapConnectorEnd, elements],
+  )
+
+  // appends pointer samples to the pen or highlighter stroke being drawn
+  const extendStroke = useCallback(
+    (samples: { x: number; y: number; pressure: number }[]) => {
+      if (!drawing.current) return
+      const strokeId = activeStrokeIdRef.current
+      const points = samples.flatMap((p) => [p.x, p.y])
+      setElements((prev) =>
+        prev.map((el) => {
+          if (el.id !== strokeId) return el
+          if (el.type === "highlighter") return { ...el, points: [...el.points, ...points] }
+          if (el.type !== "pen") return el
+          return {
+            ...el,
+            points: [...el.points, ...points],
+            pressures: [...(el.pressures ?? []), ...samples.map((p) => p.pressure)],
+          }
+        }),
+      )
+    },
+    [setElements],
   )
 
+  // `square` (Shift) keeps an ellipse a circle, and a library shape's box square
   const updateDrawing = useCallback(
-    (pos: { x: number; y: number }) => {
-      if (tool === "pen") {
-        if (!drawing.current) return
-        setLines((prev) => {
-          const last = prev[prev.length - 1]
-          if (!last) return prev
-          const updated = { ...last, points: [...last.points, pos.x, pos.y] }
-          return [...prev.slice(0, -1), updated]
-        })
-      } else if (tool === "eraser") {
+    (pos: { x: number; y: number }, square: boolean) => {
+      if (tool === "eraser") {
         // handled in onPointerMove for real-time deletion
       } else if (draft) {
         // existing draft updates
-        if (draft.type === "rect") {
+        if (draft.type === "rect" || draft.type === "frame") {
           setDraft({ ...draft, width: pos.x - draft.x, height: pos.y - draft.y })
-        } else if (draft.type === "circle") {
-          const dx = pos.x - draft.x
-          const dy = pos.y - draft.y
-          const r = Math.sqrt(dx * dx + dy * dy)
-          setDraft({ ...draft, radius: r })
+        } else if (draft.type === "circle" || draft.type === "shape") {
+          // the ellipse or shape fills the box dragged out from where it started
+          let w = pos.x - draft.origin.x
+          let h = pos.y - draft.origin.y
+          if (square) {
+            const side = Math.max(Math.abs(w), Math.abs(h))
+            w = w < 0 ? -side : side
+            h = h < 0 ? -side : side
+          }
+          if (draft.type === "shape") {
+            const x = Math.min(draft.origin.x, draft.origin.x + w)
+            const y = Math.min(draft.origin.y, draft.origin.y + h)
+            setDraft({ ...draft, x, y, width: Math.abs(w), height: Math.abs(h) })
+            return
+          }
+          const radii = { radiusX: Math.abs(w) / 2, radiusY: Math.abs(h) / 2 }
+          setDraft({ ...draft, x: draft.origin.x + w / 2, y: draft.origin.y + h / 2, ...radii })
         } else if (draft.type === "line" || draft.type === "arrow") {
-          setDraft({ ...draft, x2: pos.x, y2: pos.y })
+          const bound = snapConnectorEnd(pos.x, pos.y)
+          const at = bound ?? pos
+          setDraft({ ...draft, x2: at.x, y2: at.y, end: bound?.end })
         } else if (draft.type === "triangle") {
           const x1 = draft.x1
           const y1 = draft.y1
@@ -291,81 +569,84 @@ export function WhiteboardCanvas({
         }
       }
     },
-    [tool, draft],
+    [tool, draft, snapConnectorEnd],
   )
 
   const applyEraserDeletion = useCallback((path: number[], threshold: number) => {
     if (path.length < 2) return
     const t = Math.max(2, threshold) // min threshold for reliable hit
-    // Filter lines (only pen strokes)
-    setLines((prev) => {
-      const result: LineItem[] = []
-      for (const l of prev) {
-        if (l.tool !== "pen") {
-          result.push(l)
+    setElements((prev) => {
+      const result: WhiteboardElement[] = []
+      for (const el of prev) {
+        // hidden and locked layers are out of the eraser's reach, and so are the images
+        // being annotated
+        if (!isEditable(el, layers) || el.type === "image") {
+          result.push(el)
           continue
         }
-        const segments = splitPolylineByEraser(l.points, path, Math.max(t, l.strokeWidth / 2))
-        if (segments.length === 0) continue
-        for (const seg of segments) {
-          result.push({ ...l, points: seg })
+        if (el.type === "pen" || el.type === "highlighter") {
+          const width = el.type === "pen" ? maxPenWidth(el) : el.strokeWidth
+          const segments = splitPolylineByEraser(el, path, Math.max(t, width / 2))
+          if (segments.length === 1 && segments[0] === el) {
+            result.push(el)
+            continue
+          }
+          // the first surviving piece keeps the stroke's id, further pieces become new elements
+          segments.forEach((seg, i) => result.push({ ...el, id: i === 0 ? el.id : createId(), ...seg }))
+          continue
         }
+        // Keep shape deletion for now (eraser removes the shape if you touch its border)
+        const touched = path.some((_, i) => {
+          if (i % 2 === 1) return false
+          return hitTestElement(el, path[i], path[i + 1], t)
+        })
+        if (!touched) result.push(el)
       }
       return result
     })
-
-    // Keep shape deletion for now (eraser removes the shape if you touch its border)
-    setRects((prev) =>
-      prev.filter(
-        (r) =>
-          !path.some((_, i) => {
-            if (i % 2 === 1) return false
-            return rectHit(r, path[i], path[i + 1], t)
-          }),
-      ),
-    )
-    setCircles((prev) =>
-      prev.filter(
-        (c) =>
-          !path.some((_, i) => {
-            if (i % 2 === 1) return false
-            return circleHit(c, path[i], path[i + 1], t)
-          }),
-      ),
-    )
-    setSimpleLines((prev) =>
-      prev.filter(
-        (l) =>
-          !path.some((_, i) => {
-            if (i % 2 === 1) return false
-            return lineHit(l, path[i], path[i + 1], Math.max(t, l.strokeWidth / 2))
-          }),
-      ),
-    )
-    setArrows((prev) =>
-      prev.filter(
-        (a) =>
-          !path.some((_, i) => {
-            if (i % 2 === 1) return false
-            return lineHit(a, path[i], path[i + 1], Math.max(t, a.strokeWidth / 2))
-          }),
-      ),
-    )
-    setTriangles((prev) =>
-      prev.filter(
-        (tr) =>
-          !path.some((_, i) => {
-            if (i % 2 === 1) return false
-            return triangleHit(tr, path[i], path[i + 1], t)
-          }),
-      ),
-    )
-  }, [])
+  }, [layers])
+
+  // turn a shape draft, or a shape recognized from a pen stroke, into a scene element styled
+  // with the current tool settings
+  const draftToElement = useCallback(
+    (d: Draft | RecognizedShape, id: string): WhiteboardElement => {
+      const base = { id, layerId: activeLayerId, stroke: color, strokeWidth, dashed: brushStyle === "dashed" }
+      const closed = fill == null ? base : { ...base, fill, fillOpacity }
+      if (d.type === "rect") {
+        // a rect dragged up or left is kept by its top-left corner, like the other boxes
+        const x = Math.min(d.x, d.x + d.width)
+        const y = Math.min(d.y, d.y + d.height)
+        return { ...closed, type: "rect", x, y, width: Math.abs(d.width), height: Math.abs(d.height) }
+      } else if (d.type === "frame") {
+        // frames take none of the tool's styling
+        const x = Math.min(d.x, d.x + d.width)
+        const y = Math.min(d.y, d.y + d.height)
+        const box = { x, y, width: Math.abs(d.width), height: Math.abs(d.height) }
+        return { id, layerId: activeLayerId, type: "frame", ...box, name: d.name }
+      } else if (d.type === "circle") {
+        return { ...closed, type: "circle", x: d.x, y: d.y, radiusX: d.radiusX, radiusY: d.radiusY }
+      } else if (d.type === "shape") {
+        const box = { x: d.x, y: d.y, width: d.width, height: d.height }
+        const { shape, cornerRadius, sides } = shapeStyle
+        if (shape === "rounded-rect") return { ...closed, type: "rect", ...box, cornerRadius }
+        const counted = shape === "polygon" || shape === "star" ? { sides } : {}
+        return { ...closed, type: "shape", shape, ...box, ...counted }
+      } else if (d.type === "triangle") {
+        return { ...closed, type: "triangle", x1: d.x1, y1: d.y1, x2: d.x2, y2: d.y2, x3: d.x3, y3: d.y3 }
+      }
+      // recognized pen strokes have no routing and are always straight
+      const routing = "routing" in d && d.routing !== "straight" ? d.routing : undefined
+      const connector = "routing" in d ? { routing, start: d.start, end: d.end } : {}
+      return { ...base, type: d.type, x1: d.x1, y1: d.y1, x2: d.x2, y2: d.y2, ...connector }
+    },
+    [color, strokeWidth, brushStyle, fill, fillOpacity, shapeStyle, activeLayerId],
+  )
 
   const endDrawing = useCallback(() => {
     if (tool === "eraser") {
       erasingPathRef.current = []
       drawing.current = false
+      commitChange("erase")
       return
     }
     if (tool === "laser") {
@@ -373,185 +654,78 @@ export function WhiteboardCanvas({
       return
     }
     drawing.current = false
-    if (!draft) return
-    // finalize shapes using current arrays (snapshot was pushed on pointerDown)
-    if (draft.type === "rect") {
-      setRects([
-        ...rects,
-        {
-          x: draft.x,
-          y: draft.y,
-          width: draft.width,
-          height: draft.height,
-          stroke: color,
-          strokeWidth,
-          dashed: brushStyle === "dashed",
-        },
-      ])
-    } else if (draft.type === "circle") {
-      setCircles([
-        ...circles,
-        { x: draft.x, y: draft.y, radius: draft.radius, stroke: color, strokeWidth, dashed: brushStyle === "dashed" },
-      ])
-    } else if (draft.type === "line") {
-      setSimpleLines([
-        ...simpleLines,
-        {
-          x1: draft.x1,
-          y1: draft.y1,
-          x2: draft.x2,
-          y2: draft.y2,
-          stroke: color,
-          strokeWidth,
-          dashed: brushStyle === "dashed",
-        },
-      ])
-    } else if (draft.type === "arrow") {
-      setArrows([
-        ...arrows,
-        {
-          x1: draft.x1,
-          y1: draft.y1,
-          x2: draft.x2,
-          y2: draft.y2,
-          stroke: color,
-          strokeWidth,
-          dashed: brushStyle === "dashed",
-        },
-      ])
-    } else if (draft.type === "triangle") {
-      setTriangles([
-        ...triangles,
-        {
-          x1: draft.x1,
-          y1: draft.y1,
-          x2: draft.x2,
-          y2: draft.y2,
-          x3: draft.x3,
-          y3: draft.y3,
-          stroke: color,
-          strokeWidth,
-          dashed: brushStyle === "dashed",
-        },
-      ])
+    bindHintRef.current = null
+    const strokeId = activeStrokeIdRef.current
+    activeStrokeIdRef.current = null
+    stopHold()
+    const stroke = strokeId ? elements.find((el) => el.id === strokeId) : undefined
+    if (strokeId && stroke?.type === "pen") {
+      const shape = snapPreview ?? (snapShapes ? recognizeShape(stroke.points, scale) : null)
+      const snapped = shape && draftToElement(shape, createId())
+      if (snapped) pendingSnapRef.current = { strokeId, shape: snapped }
     }
-    setDraft(null)
-  }, [tool, draft, color, strokeWidth, brushStyle, applyEraserDeletion, rects, circles, simpleLines, arrows, triangles])
-
-  const getRectBBox = (r: RectItem) => {
-    const x0 = Math.min(r.x, r.x + r.width)
-    const y0 = Math.min(r.y, r.y + r.height)
-    const x1 = Math.max(r.x, r.x + r.width)
-    const y1 = Math.max(r.y, r.y + r.height)
-    return { x0, y0, x1, y1 }
-  }
-  const getCircleBBox = (c: CircleItem) => ({
-    x0: c.x - c.radius,
-    y0: c.y - c.radius,
-    x1: c.x + c.radius,
-    y1: c.y + c.radius,
-  })
-  const getLineBBox = (l: SimpleLineItem) => ({
-    x0: Math.min(l.x1, l.x2),
-    y0: Math.min(l.y1, l.y2),
-    x1: Math.max(l.x1, l.x2),
-    y1: Math.max(l.y1, l.y2),
-  })
-  const getTriBBox = (t: TriangleItem) => ({
-    x0: Math.min(t.x1, t.x2, t.x3),
-    y0: Math.min(t.y1, t.y2, t.y3),
-    x1: Math.max(t.x1, t.x2, t.x3),
-    y1: Math.max(t.y1, t.y2, t.y3),
-  })
-
-  const getSelectedBBox = useCallback(() => {
-    if (!selected) return null
-    if (selected.kind === "rect") return getRectBBox(rects[selected.idx])
-    if (selected.kind === "circle") return getCircleBBox(circles[selected.idx])
-    if (selected.kind === "line") return getLineBBox(simpleLines[selected.idx])
-    if (selected.kind === "arrow") return getLineBBox(arrows[selected.idx])
-    if (selected.kind === "triangle") return getTriBBox(triangles[selected.idx])
-    return null
-  }, [selected, rects, circles, simpleLines, arrows, triangles])
-
-  // distance helpers for hit-testing
-  function distPointToSeg(px: number, py: number, x1: number, y1: number, x2: number, y2: number) {
-    const dx = x2 - x1
-    const dy = y2 - y1
-    const len2 = dx * dx + dy * dy
-    if (len2 === 0) return Math.hypot(px - x1, py - y1)
-    let t = ((px - x1) * dx + (py - y1) * dy) / len2
-    t = Math.max(0, Math.min(1, t))
-    const x = x1 + t * dx
-    const y = y1 + t * dy
-    return Math.hypot(px - x, py - y)
-  }
-  function polylineHit(points: number[], px: number, py: number, thresh: number) {
-    for (let i = 0; i + 3 < points.length; i += 2) {
-      if (distPointToSeg(px, py, points[i], points[i + 1], points[i + 2], points[i + 3]) <= thresh) return true
+    if (strokeId) {
+      // keep only the samples the line needs, judged at the zoom it was drawn at
+      setElements((prev) =>
+        prev.map((el) =>
+          el.id === strokeId && (el.type === "pen" || el.type === "highlighter")
+            ? { ...el, ...simplifyStroke(el, el.strokeWidth, SIMPLIFY_TOLERANCE / scale) }
+            : el,
+        ),
+      )
     }
-    return false
-  }
-  function rectHit(r: RectItem, px: number, py: number, t: number) {
-    const { x, y, width, height } = r
-    return (
-      distPointToSeg(px, py, x, y, x + width, y) <= t ||
-      distPointToSeg(px, py, x + width, y, x + width, y + height) <= t ||
-      distPointToSeg(px, py, x + width, y + height, x, y + height) <= t ||
-      distPointToSeg(px, py, x, y + height, x, y) <= t
-    )
-  }
-  function circleHit(c: CircleItem, px: number, py: number, t: number) {
-    const d = Math.hypot(px - c.x, py - c.y)
-    return Math.abs(d - c.radius) <= t
-  }
-  function lineHit(l: SimpleLineItem, px: number, py: number, t: number) {
-    return distPointToSeg(px, py, l.x1, l.y1, l.x2, l.y2) <= t
-  }
-  function triangleHit(tr: TriangleItem, px: number, py: number, t: number) {
-    return (
-      distPointToSeg(px, py, tr.x1, tr.y1, tr.x2, tr.y2) <= t ||
-      distPointToSeg(px, py, tr.x2, tr.y2, tr.x3, tr.y3) <= t ||
-      distPointToSeg(px, py, tr.x3, tr.y3, tr.x1, tr.y1) <= t
-    )
-  }
+    if (draft) {
+      // finalize shapes onto the top of the scene (the change began on pointerDown)
+      const created = draftToElement(draft, createId())
+      setElements((prev) => [...prev, created])
+      setDraft(null)
+    }
+    commitChange("draw")
+  }, [
+    tool,
+    draft,
+    draftToElement,
+    elements,
+    snapPreview,
+    snapShapes,
+    setElements,
+    scale,
+    stopHold,
+    commitChange,
+  ])
+
+  // a recognized stroke becomes its shape once the ink is in the history, as a step of its own
+  useEffect(() => {
+    const pending = pendingSnapRef.current
+    if (!pending) return
+    pendingSnapRef.current = null
+    beginChange()
+    setElements((prev) => prev.map((el) => (el.id === pending.strokeId ? pending.shape : el)))
+    commitChange("edit", `Turned stroke into ${describeElements([pending.shape])}`)
+  }, [board.history, beginChange, setElements, commitChange])
 
   const handleUnderPointer = (px: number, py: number) => {
-    const bbox = getSelectedBBox()
-    if (!bbox) return { hit: false as const }
+    if (!selectionFrame) return { hit: false as const }
     const hs = Math.max(6 / scale, 4 / scale)
-    const handles = [
-      { x: bbox.x0, y: bbox.y0, id: 0 },
-      { x: bbox.x1, y: bbox.y0, id: 1 },
-      { x: bbox.x1, y: bbox.y1, id: 2 },
-      { x: bbox.x0, y: bbox.y1, id: 3 },
-    ]
-    for (const h of handles) {
+    const handles = frameHandles(selectionFrame, scale)
+    for (const id of shownHandles) {
+      const h = handles[id]
       if (px >= h.x - hs && px <= h.x + hs && py >= h.y - hs && py <= h.y + hs) {
-        return { hit: true as const, id: h.id }
+        return { hit: true as const, id }
       }
     }
     return { hit: false as const }
   }
 
   const shapeUnderPointer = (px: number, py: number) => {
-    // check top-most first: freehand lines (last), triangles, arrows, simple lines, circles, rects
-    for (let i = lines.length - 1; i >= 0; i--) {
-      if (polylineHit(lines[i].points, px, py, Math.max(4 / scale, lines[i].strokeWidth / 2))) {
-        // we allow selecting lines for moving, but we won't implement resize for freehand in this pass
-        return { kind: "pen" as const, idx: i }
-      }
+    // walk the scene top-most first, so the element drawn last wins; hidden and locked
+    // layers can't be picked
+    const candidates = editableElements(elements, layers)
+    for (let i = candidates.length - 1; i >= 0; i--) {
+      const el = candidates[i]
+      const t = el.type === "pen" || el.type === "highlighter" ? 4 / scale : 6 / scale
+      if (hitTestElement(el, px, py, t)) return el
     }
-    for (let i = triangles.length - 1; i >= 0; i--)
-      if (triangleHit(triangles[i], px, py, 6 / scale)) return { kind: "triangle" as const, idx: i }
-    for (let i = arrows.length - 1; i >= 0; i--)
-      if (lineHit(arrows[i], px, py, 6 / scale)) return { kind: "arrow" as const, idx: i }
-    for (let i = simpleLines.length - 1; i >= 0; i--)
-      if (lineHit(simpleLines[i], px, py, 6 / scale)) return { kind: "line" as const, idx: i }
-    for (let i = circles.length - 1; i >= 0; i--)
-      if (circleHit(circles[i], px, py, 6 / scale)) return { kind: "circle" as const, idx: i }
-    for (let i = rects.length - 1; i >= 0; i--)
-      if (rectHit(rects[i], px, py, 6 / scale)) return { kind: "rect" as const, idx: i }
     return null
   }
 
@@ -578,235 +752,125 @@ export function WhiteboardCanvas({
 
       // ----- background (world space) -----
       const dpr = dprRef.current || 1
-      const cssW = canvas.width / dpr
-      const cssH = canvas.height / dpr
-      const viewW = cssW / scale
-      const viewH = cssH / scale
-      const minX = -offset.x / scale
-      const minY = -offset.y / scale
-
-      // fill page color
-      ctx.fillStyle = backgroundColor
-      ctx.fillRect(minX, minY, viewW, viewH)
-
-      // draw pattern
-      const step = 24 // world units between lines/dots
-      const pColor = patternColorFor(backgroundColor)
-      const startX = Math.floor(minX / step) * step
-      const startY = Math.floor(minY / step) * step
-      const endX = minX + viewW + step
-      const endY = minY + viewH + step
-
-      if (background === "dotted") {
-        ctx.fillStyle = pColor
-        const r = 1 // world radius; scales visually with zoom
-        for (let x = startX; x < endX; x += step) {
-          for (let y = startY; y < endY; y += step) {
-            ctx.beginPath()
-            ctx.arc(x, y, r, 0, Math.PI * 2)
-            ctx.fill()
-          }
-        }
-      } else if (background === "grid") {
-        ctx.strokeStyle = pColor
-        ctx.lineWidth = 1
-        // verticals
-        for (let x = startX; x < endX; x += step) {
-          ctx.beginPath()
-          ctx.moveTo(x, startY)
-          ctx.lineTo(x, endY)
-          ctx.stroke()
-        }
-        // horizontals
-        for (let y = startY; y < endY; y += step) {
-          ctx.beginPath()
-          ctx.moveTo(startX, y)
-          ctx.lineTo(endX, y)
-          ctx.stroke()
-        }
-      } else if (background === "ruled") {
-        ctx.strokeStyle = pColor
-        ctx.lineWidth = 1
-        for (let y = startY; y < endY; y += step) {
-          ctx.beginPath()
-          ctx.moveTo(startX, y)
-          ctx.lineTo(endX, y)
-          ctx.stroke()
-        }
-      } else if (background === "matrix") {
-        // simple diagonal crosshatch (approximate 60deg/-60deg)
-        ctx.strokeStyle = pColor
-        ctx.lineWidth = 1
-        // slope +1
-        for (let y = startY - (endX - startX); y < endY + (endX - startX); y += step) {
-          ctx.beginPath()
-          ctx.moveTo(startX, y)
-          ctx.lineTo(endX, y + (endX - startX))
-          ctx.stroke()
-        }
-        // slope -1
-        for (let y = startY + (endX - startX); y > startY - (endX - startX); y -= step) {
-          ctx.beginPath()
-          ctx.moveTo(startX, y)
-          ctx.lineTo(endX, y - (endX - startX))
-          ctx.stroke()
-        }
-      }
-      // ----- end background -----
-
-      // shapes
-      const applyStroke = (stroke: string, width: number, dashedLocal?: boolean) => {
-        ctx.strokeStyle = stroke
-        ctx.lineWidth = width
-        ctx.setLineDash(dashedLocal ? dashed : [])
-        ctx.lineCap = lineCap as CanvasLineCap
-        ctx.lineJoin = lineJoin as CanvasLineJoin
+      const view = {
+        x: -offset.x / scale,
+        y: -offset.y / scale,
+        width: canvas.width / dpr / scale,
+        height: canvas.height / dpr / scale,
       }
+      drawBackground(ctx, background, backgroundColor, view)
 
-      // rects
-      for (const r of rects) {
-        applyStroke(r.stroke, r.strokeWidth, r.dashed)
-        ctx.strokeRect(r.x, r.y, r.width, r.height)
-      }
-
-      // circles
-      for (const c of circles) {
-        applyStroke(c.stroke, c.strokeWidth, c.dashed)
-        ctx.beginPath()
-        ctx.arc(c.x, c.y, c.radius, 0, Math.PI * 2)
-        ctx.stroke()
-      }
+      drawLayers(ctx, painted, layers)
 
-      // simple lines
-      for (const l of simpleLines) {
-        applyStroke(l.stroke, l.strokeWidth, l.dashed)
-        ctx.beginPath()
-        ctx.moveTo(l.x1, l.y1)
-        ctx.lineTo(l.x2, l.y2)
-        ctx.stroke()
-      }
+      // draft (preview)
+      const preview = draft ? draftToElement(draft, "draft") : null
+      if (preview) drawElement(ctx, preview)
+      const snapped = snapPreview && draftToElement(snapPreview, "snap")
+      if (snapped) drawElement(ctx, snapped)
 
-      // arrows
-      for (const a of arrows) {
-        applyStroke(a.stroke, a.strokeWidth, a.dashed)
-        // main line
-        ctx.beginPath()
-        ctx.moveTo(a.x1, a.y1)
-        ctx.lineTo(a.x2, a.y2)
-        ctx.stroke()
-        // arrowhead
-        const angle = Math.atan2(a.y2 - a.y1, a.x2 - a.x1)
-        const len = 10 + Math.max(0, a.strokeWidth - 2) // scale arrowhead a bit
-        const aw = len * 0.6
-        ctx.beginPath()
-        ctx.moveTo(a.x2, a.y2)
-        ctx.lineTo(a.x2 - len * Math.cos(angle - Math.PI / 8), a.y2 - len * Math.sin(angle - Math.PI / 8))
-        ctx.lineTo(a.x2 - len * Math.cos(angle + Math.PI / 8), a.y2 - len * Math.sin(angle + Math.PI / 8))
-        ctx.lineTo(a.x2, a.y2)
-        ctx.closePath()
-        ctx.fillStyle = a.stroke
-        ctx.fill()
+      // while cropping, the cut-away parts of the image show faintly around the crop box
+      if (cropping) {
+        ctx.save()
+        ctx.globalAlpha = 0.3
+        // turned with the crop box, about its centre rather than the whole image's
+        const c = bboxCenter(getLocalBBox(cropping))
+        ctx.translate(c.x, c.y)
+        ctx.rotate(rotationOf(cropping))
+        ctx.translate(-c.x, -c.y)
+        drawElement(ctx, { ...uncroppedImage(cropping), rotation: undefined })
+        ctx.restore()
       }
 
-      // triangles
-      for (const t of triangles) {
-        applyStroke(t.stroke, t.strokeWidth, t.dashed)
+      // selection overlay (in world space)
+      if (tool === "select" && selectionFrame) {
+        ctx.save()
+        // outline each member of a group, then one shared box with the handles
+        if (selection.length > 1) {
+          ctx.strokeStyle = "rgba(59,130,246,0.6)"
+          ctx.lineWidth = 1 / scale
+          for (const el of selection) {
+            const b = getElementBBox(el)
+            ctx.strokeRect(b.x0, b.y0, b.x1 - b.x0, b.y1 - b.y0)
+          }
+        }
+        const handles = frameHandles(selectionFrame, scale)
+        const [tl, tr, br, bl] = handles
+        const turn = handles[ROTATE_HANDLE]
+        ctx.setLineDash([6, 4])
+        ctx.strokeStyle = "#3b82f6"
+        ctx.lineWidth = 1 / scale
         ctx.beginPath()
-        ctx.moveTo(t.x1, t.y1)
-        ctx.lineTo(t.x2, t.y2)
-        ctx.lineTo(t.x3, t.y3)
+        ctx.moveTo(tl.x, tl.y)
+        ctx.lineTo(tr.x, tr.y)
+        ctx.lineTo(br.x, br.y)
+        ctx.lineTo(bl.x, bl.y)
         ctx.closePath()
         ctx.stroke()
-      }
+        ctx.setLineDash([])
 
-      // freehand lines and eraser
-      for (const l of lines) {
-        ctx.save()
-        ctx.globalCompositeOperation = l.tool === "eraser" ? "destination-out" : "source-over"
-        applyStroke(l.tool === "eraser" ? "rgba(0,0,0,1)" : l.color, l.strokeWidth, l.brushStyle === "dashed")
-        ctx.beginPath()
-        const pts = l.points
-        if (pts.length >= 2) {
-          ctx.moveTo(pts[0], pts[1])
-          for (let i = 2; i < pts.length; i += 2) {
-            ctx.lineTo(pts[i], pts[i + 1])
-          }
+        // the rotation handle, on a stalk from the middle of the top edge
+        const turnable = shownHandles.includes(ROTATE_HANDLE)
+        if (turnable) {
+          ctx.beginPath()
+          ctx.moveTo(handles[4].x, handles[4].y)
+          ctx.lineTo(turn.x, turn.y)
           ctx.stroke()
         }
-        ctx.restore()
-      }
 
-      // draft (preview)
-      if (draft) {
-        ctx.save()
-        applyStroke(color, strokeWidth, brushStyle === "dashed")
-        if (draft.type === "rect") {
-          ctx.strokeRect(draft.x, draft.y, draft.width, draft.height)
-        } else if (draft.type === "circle") {
-          ctx.beginPath()
-          ctx.arc(draft.x, draft.y, draft.radius, 0, Math.PI * 2)
-          ctx.stroke()
-        } else if (draft.type === "line") {
-          ctx.beginPath()
-          ctx.moveTo(draft.x1, draft.y1)
-          ctx.lineTo(draft.x2, draft.y2)
-          ctx.stroke()
-        } else if (draft.type === "arrow") {
-          ctx.beginPath()
-          ctx.moveTo(draft.x1, draft.y1)
-          ctx.lineTo(draft.x2, draft.y2)
-          ctx.stroke()
-          const angle = Math.atan2(draft.y2 - draft.y1, draft.x2 - draft.x1)
-          const len = 10 + Math.max(0, strokeWidth - 2)
+        // draw the corner and side handles with constant screen size
+        const hs = Math.max(6 / scale, 4 / scale)
+        ctx.fillStyle = "#3b82f6"
+        ctx.strokeStyle = "#ffffff"
+        for (const id of shownHandles) {
+          if (id === ROTATE_HANDLE) continue
+          const h = handles[id]
+          ctx.fillRect(h.x - hs / 2, h.y - hs / 2, hs, hs)
+          ctx.strokeRect(h.x - hs / 2, h.y - hs / 2, hs, hs)
+        }
+        if (turnable) {
           ctx.beginPath()
-          ctx.moveTo(draft.x2, draft.y2)
-          ctx.lineTo(draft.x2 - len * Math.cos(angle - Math.PI / 8), draft.y2 - len * Math.sin(angle - Math.PI / 8))
-          ctx.lineTo(draft.x2 - len * Math.cos(angle + Math.PI / 8), draft.y2 - len * Math.sin(angle + Math.PI / 8))
-          ctx.lineTo(draft.x2, draft.y2)
-          ctx.closePath()
-          ctx.fillStyle = color
+          ctx.arc(turn.x, turn.y, hs / 2 + 1 / scale, 0, Math.PI * 2)
           ctx.fill()
-        } else if (draft.type === "triangle") {
-          ctx.beginPath()
-          ctx.moveTo(draft.x1, draft.y1)
-          ctx.lineTo(draft.x2, draft.y2)
-          ctx.lineTo(draft.x3, draft.y3)
-          ctx.closePath()
           ctx.stroke()
         }
         ctx.restore()
       }
 
-      // selection overlay (in world space)
-      if (tool === "select" && selected) {
-        const bbox = getSelectedBBox()
-        if (bbox) {
-          const { x0, y0, x1, y1 } = bbox
-          const w = x1 - x0
-          const h = y1 - y0
-          ctx.save()
-          ctx.setLineDash([6, 4])
-          ctx.strokeStyle = "#3b82f6"
-          ctx.lineWidth = 1 / scale
-          ctx.strokeRect(x0, y0, w, h)
-          ctx.setLineDash([])
-
-          // draw 4 corner handles with constant screen size
-          const hs = Math.max(6 / scale, 4 / scale)
-          const handles = [
-            { x: x0, y: y0 }, // tl (0)
-            { x: x1, y: y0 }, // tr (1)
-            { x: x1, y: y1 }, // br (2)
-            { x: x0, y: y1 }, // bl (3)
-          ]
+      const marquee = marqueeRef.current
+      if (tool === "select" && marquee) {
+        const x = Math.min(marquee.start.x, marquee.current.x)
+        const y = Math.min(marquee.start.y, marquee.current.y)
+        const w = Math.abs(marquee.current.x - marquee.start.x)
+        const h = Math.abs(marquee.current.y - marquee.start.y)
+        ctx.save()
+        ctx.fillStyle = "rgba(59,130,246,0.08)"
+        ctx.fillRect(x, y, w, h)
+        ctx.strokeStyle = "#3b82f6"
+        ctx.lineWidth = 1 / scale
+        ctx.strokeRect(x, y, w, h)
+        ctx.restore()
+      }
+
+      // the anchors a connector end can snap to, and where it snapped
+      const hint = bindHintRef.current
+      if (hint) {
+        ctx.save()
+        ctx.fillStyle = "#ffffff"
+        ctx.strokeStyle = "#3b82f6"
+        ctx.lineWidth = 1.5 / scale
+        for (const p of hint.anchors) {
+          ctx.beginPath()
+          ctx.arc(p.x, p.y, 4 / scale, 0, Math.PI * 2)
+          ctx.fill()
+          ctx.stroke()
+        }
+        if (hint.point) {
           ctx.fillStyle = "#3b82f6"
-          ctx.strokeStyle = "#ffffff"
-          for (const h of handles) {
-            ctx.fillRect(h.x - hs / 2, h.y - hs / 2, hs, hs)
-            ctx.strokeRect(h.x - hs / 2, h.y - hs / 2, hs, hs)
-          }
-          ctx.restore()
+          ctx.beginPath()
+          ctx.arc(hint.point.x, hint.point.y, 5 / scale, 0, Math.PI * 2)
+          ctx.fill()
         }
+        ctx.restore()
       }
 
       // draw eraser radius preview
@@ -866,37 +930,93 @@ export function WhiteboardCanvas({
     raf = requestAnimationFrame(render)
     return () => cancelAnimationFrame(raf)
   }, [
-    arrows,
-    circles,
-    color,
-    dashed,
     draft,
-    lineCap,
-    lineJoin,
-    lines,
-    rects,
+    draftToElement,
+    snapPreview,
+    elements,
+    layers,
     scale,
-    simpleLines,
     strokeWidth,
-    brushStyle,
     offset.x,
     offset.y,
-    triangles,
     tool,
-    selected,
-    getSelectedBBox,
+    selection,
+    selectionBBox,
+    selectionFrame,
+    shownHandles,
+    cropping,
+    assetsLoaded,
+    painted,
     background,
     backgroundColor,
   ])
 
   const eraserCursorRef = useRef<null | { x: number; y: number }>(null)
 
+  const startTextEdit = useCallback(
+    (el: TextItem | StickyItem | FrameItem) => {
+      editingRef.current = el
+      setEditing(el)
+      setSelectedIds([])
+    },
+    [setSelectedIds],
+  )
+  const changeEditedText = useCallback((text: string) => {
+    const el = editingRef.current
+    if (!el) return
+    editingRef.current = el.type === "frame" ? { ...el, name: text } : { ...el, text }
+    setEditing(editingRef.current)
+  }, [])
+  // writes the edit back as one step; a text box left empty is removed, a note stays and a frame
+  // left without a name keeps its old one
+  const finishTextEdit = useCallback(() => {
+    const el = editingRef.current
+    if (!el) return
+    editingRef.current = null
+    setEditing(null)
+    if (el.type === "frame") {
+      if (el.name.trim() === "") return
+      beginChange()
+      setElements((prev) => prev.map((e) => (e.id === el.id ? el : e)))
+      commitChange("edit", `Renamed ${describeElements([el])}`)
+      return
+    }
+    const existed = elements.some((e) => e.id === el.id)
+    const empty = el.type === "text" && el.text.trim() === ""
+    if (empty && !existed) return
+    beginChange()
+    if (empty) {
+      setElements((prev) => prev.filter((e) => e.id !== el.id))
+      commitChange("edit", `Deleted ${describeElements([el])}`)
+    } else if (existed) {
+      setElements((prev) => prev.map((e) => (e.id === el.id ? el : e)))
+      commitChange("edit", `Edited ${describeElements([el])}`)
+    } else {
+      setElements((prev) => [...prev, el])
+      commitChange("edit", `Added ${describeElements([el])}`)
+    }
+  }, [elements, beginChange, setElements, commitChange])
+
+  // Tab / Shift+Tab on a note: a fresh one to the right / below, ready to type in
+  const spawnNextSticky = useCallback(
+    (from: StickyItem, direction: "right" | "below") => {
+      finishTextEdit()
+      startTextEdit(nextSticky(from, direction, createId()))
+    },
+    [finishTextEdit, startTextEdit],
+  )
+
   const onPointerDown = useCallback(
     (e: React.PointerEvent<HTMLCanvasElement>) => {
       e.preventDefault()
       try {
         e.currentTarget.setPointerCapture(e.pointerId)
       } catch {}
+      // a click away from the text editor only closes it
+      if (editingRef.current) {
+        finishTextEdit()
+        return
+      }
       if (tool === "pan") {
         isPanningRef.current = true
         panLastRef.current = { x: e.clientX, y: e.clientY }
@@ -906,55 +1026,101 @@ export function WhiteboardCanvas({
 
       if (tool === "select") {
         // selection interactions start — snapshot before change
-        const hit = selected ? handleUnderPointer(pos.x, pos.y) : { hit: false as const }
-        if (selected && hit.hit) {
-          pushHistory()
-          interactionRef.current = {
-            mode: "resizing",
-            handle: hit.id,
-            start: pos,
-            original:
-              selected.kind === "rect"
-                ? { ...rects[selected.idx] }
-                : selected.kind === "circle"
-                  ? { ...circles[selected.idx] }
-                  : selected.kind === "line"
-                    ? { ...simpleLines[selected.idx] }
-                    : selected.kind === "arrow"
-                      ? { ...arrows[selected.idx] }
-                      : { ...triangles[selected.idx] },
-          }
+        const hit = handleUnderPointer(pos.x, pos.y)
+        if (selectionBBox && selectionFrame && hit.hit) {
+          beginChange()
+          interactionRef.current =
+            hit.id === ROTATE_HANDLE
+              ? { mode: "rotating", start: pos, originals: selection, bbox: selectionBBox, frame: selectionFrame }
+              : {
+                  mode: cropping ? "cropping" : "resizing",
+                  handle: hit.id,
+                  start: pos,
+                  originals: selection,
+                  bbox: selectionBBox,
+                }
           return
         }
+        interactionRef.current = null
         const hitShape = shapeUnderPointer(pos.x, pos.y)
-        if (hitShape && hitShape.kind !== "pen") {
-          pushHistory()
-          setSelected({ kind: hitShape.kind, idx: hitShape.idx })
+        if (hitShape) {
+          const ids = selection.map((el) => el.id)
+          if (e.shiftKey) {
+            // Shift-click adds to or removes from the selection
+            setSelectedIds(ids.includes(hitShape.id) ? ids.filter((id) => id !== hitShape.id) : [...ids, hitShape.id])
+            return
+          }
+          // dragging a member of the selection moves the whole group
+          const group = ids.includes(hitShape.id) ? selection : [hitShape]
+          if (group.length === 1) setSelectedIds([hitShape.id])
+          beginChange()
           interactionRef.current = {
             mode: "moving",
             start: pos,
-            original:
-              hitShape.kind === "rect"
-                ? { ...rects[hitShape.idx] }
-                : hitShape.kind === "circle"
-                  ? { ...circles[hitShape.idx] }
-                  : hitShape.kind === "line"
-                    ? { ...simpleLines[hitShape.idx] }
-                    : hitShape.kind === "arrow"
-                      ? { ...arrows[hitShape.idx] }
-                      : { ...triangles[hitShape.idx] },
+            originals: group,
+            bbox: unionBBox(group.map(getElementBBox))!,
           }
           return
-        } else {
-          setSelected(null)
-          interactionRef.current = null
+        }
+        // empty space: drag out a marquee
+        const base = e.shiftKey ? selection.map((el) => el.id) : []
+        marqueeRef.current = { start: pos, current: pos, base }
+        setSelectedIds(base)
+        return
+      }
+
+      if (tool === "text" || tool === "sticky") {
+        const hitShape = shapeUnderPointer(pos.x, pos.y)
+        if (hitShape?.type === tool) {
+          startTextEdit(hitShape as TextItem | StickyItem)
           return
         }
       }
 
+      const activeLayer = layers.find((l) => l.id === activeLayerId)
+      if (tool !== "eraser" && tool !== "laser" && activeLayer && (activeLayer.locked || !activeLayer.visible)) {
+        toast(`${activeLayer.name} is ${activeLayer.locked ? "locked" : "hidden"}`, {
+          description: `${activeLayer.locked ? "Unlock" : "Show"} it or pick another layer to draw on.`,
+        })
+        return
+      }
+
+      if (tool === "text") {
+        // the click lands in the middle of the first line
+        startTextEdit({
+          id: createId(),
+          layerId: activeLayerId,
+          type: "text",
+          x: pos.x,
+          y: pos.y - (textStyle.fontSize * LINE_HEIGHT) / 2,
+          text: "",
+          fontFamily: textStyle.fontFamily,
+          fontSize: textStyle.fontSize,
+          color,
+          align: textStyle.align,
+          width: textStyle.wrap ? DEFAULT_WRAP_WIDTH : undefined,
+        })
+        return
+      }
+
+      if (tool === "sticky") {
+        startTextEdit({
+          id: createId(),
+          layerId: activeLayerId,
+          type: "sticky",
+          x: pos.x - STICKY_SIZE / 2,
+          y: pos.y - STICKY_SIZE / 2,
+          width: STICKY_SIZE,
+          height: STICKY_SIZE,
+          color: stickyColor,
+          text: "",
+        })
+        return
+      }
+
       if (tool !== "laser") {
-        // snapshot before start of draw/erase so undo removes this operation
-        pushHistory()
+        // remember the scene before draw/erase so undo removes this operation
+        beginChange()
       }
 
       if (tool === "eraser") {
@@ -972,9 +1138,30 @@ export function WhiteboardCanvas({
         return
       }
 
-      startDrawing(pos)
+      penSampleRef.current = null
+      if (tool === "pen") trackHold(e)
+      startDrawing(pos, tool === "pen" ? nextPressure(e) : undefined)
     },
-    [getWorldPoint, tool, selected, rects, circles, simpleLines, arrows, triangles, startDrawing, pushHistory],
+    [
+      getWorldPoint,
+      tool,
+      selection,
+      selectionBBox,
+      selectionFrame,
+      shownHandles,
+      cropping,
+      elements,
+      layers,
+      activeLayerId,
+      scale,
+      color,
+      textStyle,
+      stickyColor,
+      startDrawing,
+      beginChange,
+      startTextEdit,
+      finishTextEdit,
+    ],
   )
 
   const onPointerMove = useCallback(
@@ -987,125 +1174,124 @@ export function WhiteboardCanvas({
         return
       }
       const pos = getWorldPoint(e.clientX, e.clientY)
+      cursorRef.current = pos
       if (tool === "eraser") {
         eraserCursorRef.current = pos
       }
+      if ((tool === "line" || tool === "arrow") && !draft) snapConnectorEnd(pos.x, pos.y)
+
+      const marquee = marqueeRef.current
+      if (tool === "select" && marquee) {
+        marquee.current = pos
+        const box = {
+          x0: Math.min(marquee.start.x, pos.x),
+          y0: Math.min(marquee.start.y, pos.y),
+          x1: Math.max(marquee.start.x, pos.x),
+          y1: Math.max(marquee.start.y, pos.y),
+        }
+        const hits = editableElements(elements, layers)
+          .filter((el) => elementIntersectsBBox(el, box))
+          .map((el) => el.id)
+        setSelectedIds([...new Set([...marquee.base, ...hits])])
+        return
+      }
 
       const ia = interactionRef.current
-      if (tool === "select" && ia && selected) {
+      if (tool === "select" && ia) {
         const dx = pos.x - ia.start.x
         const dy = pos.y - ia.start.y
 
         if (ia.mode === "moving") {
-          if (selected.kind === "rect") {
-            const o = ia.original as RectItem
-            setRects((prev) => {
-              const copy = prev.slice()
-              copy[selected.idx] = { ...o, x: o.x + dx, y: o.y + dy }
-              return copy
-            })
-          } else if (selected.kind === "circle") {
-            const o = ia.original as CircleItem
-            setCircles((prev) => {
-              const copy = prev.slice()
-              copy[selected.idx] = { ...o, x: o.x + dx, y: o.y + dy }
-              return copy
-            })
-          } else if (selected.kind === "line") {
-            const o = ia.original as SimpleLineItem
-            setSimpleLines((prev) => {
-              const copy = prev.slice()
-              copy[selected.idx] = { ...o, x1: o.x1 + dx, y1: o.y1 + dy, x2: o.x2 + dx, y2: o.y2 + dy }
-              return copy
-            })
-          } else if (selected.kind === "arrow") {
-            const o = ia.original as ArrowItem
-            setArrows((prev) => {
-              const copy = prev.slice()
-              copy[selected.idx] = { ...o, x1: o.x1 + dx, y1: o.y1 + dy, x2: o.x2 + dx, y2: o.y2 + dy }
-              return copy
-            })
-          } else if (selected.kind === "triangle") {
-            const o = ia.original as TriangleItem
-            setTriangles((prev) => {
-              const copy = prev.slice()
-              copy[selected.idx] = {
-                ...o,
-                x1: o.x1 + dx,
-                y1: o.y1 + dy,
-                x2: o.x2 + dx,
-                y2: o.y2 + dy,
-                x3: o.x3 + dx,
-                y3: o.y3 + dy,
-              }
-              return copy
-            })
+          replaceMoved(ia.originals.map((o) => translateElement(o, dx, dy)))
+          return
+        }
+
+        if (ia.mode === "rotating" && ia.frame) {
+          const c = bboxCenter(ia.frame.box)
+          let angle = Math.atan2(pos.y - c.y, pos.x - c.x) - Math.atan2(ia.start.y - c.y, ia.start.x - c.x)
+          // with Shift, the frame ends up at a whole number of steps
+          if (e.shiftKey) angle = Math.round((ia.frame.angle + angle) / ROTATE_SNAP) * ROTATE_SNAP - ia.frame.angle
+          replaceMoved(ia.originals.map((o) => rotateElement(o, c, angle)))
+          return
+        }
+
+        // a lone turned element is cropped and resized in its own frame, so the drag is turned
+        // into that frame and the result turned back into place
+        const local = rotatePoint(dx, dy, 0, 0, -rotationOf(ia.originals[0]))
+        const drag: DragOptions = { keepAspect: e.shiftKey, fromCenter: e.altKey }
+
+        if (ia.mode === "cropping" && ia.handle != null) {
+          const o = ia.originals[0]
+          if (o.type === "image") {
+            const box = dragHandle(getLocalBBox(o), ia.handle, local.x, local.y, drag)
+            replaceElement(keepTurnedInPlace(o, cropImage(o, box)))
           }
           return
         }
 
+        const first = ia.originals[0]
+        const scalesByBox = ia.originals.length > 1 || first?.type === "pen" || first?.type === "highlighter"
+        if (ia.mode === "resizing" && ia.handle != null && scalesByBox) {
+          // scale a group, or a stroke's points, so that its bounds fill the dragged box; a flat
+          // side (a straight stroke) stays as it is
+          const b = ia.bbox
+          const width = b.x1 - b.x0
+          const height = b.y1 - b.y0
+          const next = dragHandle(b, ia.handle, dx, dy, {
+            ...drag,
+            minWidth: width * MIN_GROUP_SCALE,
+            minHeight: height * MIN_GROUP_SCALE,
+          })
+          const sx = width === 0 ? 1 : (next.x1 - next.x0) / width
+          const sy = height === 0 ? 1 : (next.y1 - next.y0) / height
+          const tx = width === 0 ? 0 : next.x0 - b.x0
+          const ty = height === 0 ? 0 : next.y0 - b.y0
+          const anchor = { x: b.x0, y: b.y0 }
+          replaceMoved(ia.originals.map((o) => translateElement(scaleElement(o, anchor, sx, sy), tx, ty)))
+          return
+        }
+
         if (ia.mode === "resizing" && ia.handle != null) {
-          if (selected.kind === "rect") {
-            const o = ia.original as RectItem
-            // compute bbox then adjust corners by handle
-            let { x0, y0, x1, y1 } = getRectBBox(o)
-            if (ia.handle === 0) {
-              x0 = Math.min(x1 - 1, x0 + dx)
-              y0 = Math.min(y1 - 1, y0 + dy)
-            } else if (ia.handle === 1) {
-              x1 = Math.max(x0 + 1, x1 + dx)
-              y0 = Math.min(y1 - 1, y0 + dy)
-            } else if (ia.handle === 2) {
-              x1 = Math.max(x0 + 1, x1 + dx)
-              y1 = Math.max(y0 + 1, y1 + dy)
-            } else if (ia.handle === 3) {
-              x0 = Math.min(x1 - 1, x0 + dx)
-              y1 = Math.max(y0 + 1, y1 + dy)
-            }
-            setRects((prev) => {
-              const copy = prev.slice()
-              copy[selected.idx] = { ...o, x: x0, y: y0, width: x1 - x0, height: y1 - y0 }
-              return copy
-            })
-          } else if (selected.kind === "circle") {
-            const o = ia.original as CircleItem
-            // adjust radius from center to dragged corner
-            const center = { x: o.x, y: o.y }
-            const target = { x: pos.x, y: pos.y }
-            const r = Math.max(1, Math.hypot(target.x - center.x, target.y - center.y))
-            setCircles((prev) => {
-              const copy = prev.slice()
-              copy[selected.idx] = { ...o, radius: r }
-              return copy
-            })
-          } else if (selected.kind === "line" || selected.kind === "arrow") {
-            const o = ia.original as SimpleLineItem
-            // handles 0..3 map to endpoints; use nearest endpoint by handle
-            let x1 = o.x1,
-              y1 = o.y1,
-              x2 = o.x2,
-              y2 = o.y2
-            if (ia.handle === 0 || ia.handle === 3) {
-              x1 = o.x1 + dx
-              y1 = o.y1 + dy
+          const o = ia.originals[0]
+          if (o.type === "text") {
+            // the side handles set the wrapping width; the text itself keeps its size
+            const { x0, x1 } = dragHandle(getLocalBBox(o), ia.handle, local.x, local.y, { fromCenter: e.altKey })
+            const width = Math.max(o.fontSize, x1 - x0)
+            const x = HANDLE_SIDES[ia.handle][0] < 0 ? x1 - width : x0
+            replaceElement(keepTurnedInPlace(o, { ...o, x, width }))
+          } else if (
+            o.type === "rect" ||
+            o.type === "shape" ||
+            o.type === "image" ||
+            o.type === "sticky" ||
+            o.type === "frame"
+          ) {
+            // move the dragged corner or side of the box
+            const { x0, y0, x1, y1 } = dragHandle(getLocalBBox(o), ia.handle, local.x, local.y, drag)
+            replaceElement(keepTurnedInPlace(o, { ...o, x: x0, y: y0, width: x1 - x0, height: y1 - y0 }))
+          } else if (o.type === "circle") {
+            // the ellipse fills its dragged box
+            const { x0, y0, x1, y1 } = dragHandle(getLocalBBox(o), ia.handle, local.x, local.y, drag)
+            const radii = { radiusX: (x1 - x0) / 2, radiusY: (y1 - y0) / 2 }
+            replaceElement(keepTurnedInPlace(o, { ...o, x: (x0 + x1) / 2, y: (y0 + y1) / 2, ...radii }))
+          } else if (o.type === "line" || o.type === "arrow") {
+            // handles 0 and 3 drag the start, 1 and 2 the end, which attaches to whatever it
+            // is dropped on or else comes free
+            const start = ia.handle === 0 || ia.handle === 3
+            const bound = start ? snapConnectorEnd(o.x1 + dx, o.y1 + dy) : snapConnectorEnd(o.x2 + dx, o.y2 + dy)
+            if (start) {
+              const at = bound ?? { x: o.x1 + dx, y: o.y1 + dy }
+              replaceElement({ ...o, x1: at.x, y1: at.y, start: bound?.end })
             } else {
-              x2 = o.x2 + dx
-              y2 = o.y2 + dy
+              const at = bound ?? { x: o.x2 + dx, y: o.y2 + dy }
+              replaceElement({ ...o, x2: at.x, y2: at.y, end: bound?.end })
             }
-            const updater = (prev: SimpleLineItem[]) => {
-              const copy = prev.slice()
-              copy[selected.idx] = { ...o, x1, y1, x2, y2 }
-              return copy
-            }
-            if (selected.kind === "line") setSimpleLines(updater)
-            else setArrows(updater as any)
-          } else if (selected.kind === "triangle") {
-            const o = ia.original as TriangleItem
+          } else if (o.type === "triangle") {
             // move the nearest corner to the pointer
             const pts = [
-              { x: o.x1, y: o.y1, k: "1" as const },
-              { x: o.x2, y: o.y2, k: "2" as const },
-              { x: o.x3, y: o.y3, k: "3" as const },
+              { x: o.x1, y: o.y1 },
+              { x: o.x2, y: o.y2 },
+              { x: o.x3, y: o.y3 },
             ]
             let idx = 0
             let best = Number.POSITIVE_INFINITY
@@ -1118,13 +1304,9 @@ export function WhiteboardCanvas({
             })
             const nx = pts[idx].x + dx
             const ny = pts[idx].y + dy
-            setTriangles((prev) => {
-              const copy = prev.slice()
-              if (idx === 0) copy[selected.idx] = { ...o, x1: nx, y1: ny }
-              if (idx === 1) copy[selected.idx] = { ...o, x2: nx, y2: ny }
-              if (idx === 2) copy[selected.idx] = { ...o, x3: nx, y3: ny }
-              return copy
-            })
+            if (idx === 0) replaceElement({ ...o, x1: nx, y1: ny })
+            if (idx === 1) replaceElement({ ...o, x2: nx, y2: ny })
+            if (idx === 2) replaceElement({ ...o, x3: nx, y3: ny })
           }
           return
         }
@@ -1167,11 +1349,41 @@ export function WhiteboardCanvas({
       }
 
       // existing update for drawing or draft
-      if (drawing.current || draft) {
-        updateDrawing(pos)
+      if ((tool === "pen" || tool === "highlighter") && drawing.current) {
+        // the browser may merge several samples into one move event; take them all for a
+        // faithful line
+        const coalesced = e.nativeEvent.getCoalescedEvents?.() ?? []
+        const samples = coalesced.length > 0 ? coalesced : [e.nativeEvent]
+        if (tool === "pen") trackHold(e)
+        extendStroke(samples.map((ev) => ({ ...getWorldPoint(ev.clientX, ev.clientY), pressure: nextPressure(ev) })))
+      } else if (drawing.current || draft) {
+        updateDrawing(pos, e.shiftKey)
       }
     },
-    [tool, getWorldPoint, selected, updateDrawing, draft, scale, strokeWidth, applyEraserDeletion],
+    [
+      tool,
+      getWorldPoint,
+      elements,
+      layers,
+      replaceElement,
+      replaceMoved,
+      snapConnectorEnd,
+      updateDrawing,
+      extendStroke,
+      draft,
+      scale,
+      strokeWidth,
+      applyEraserDeletion,
+    ],
+  )
+
+  // a finished select-tool drag becomes one history entry
+  const recordInteraction = useCallback(
+    (mode: "moving" | "resizing" | "cropping" | "rotating") => {
+      if (mode === "cropping") commitChange("edit", "Cropped image")
+      else commitChange(mode === "resizing" ? "resize" : mode === "rotating" ? "rotate" : "move")
+    },
+    [commitChange],
   )
 
   const onPointerUp = useCallback(
@@ -1185,7 +1397,11 @@ export function WhiteboardCanvas({
         return
       }
       if (tool === "select") {
+        const ia = interactionRef.current
+        if (ia) recordInteraction(ia.mode)
         interactionRef.current = null
+        marqueeRef.current = null
+        bindHintRef.current = null
         return
       }
       if (tool === "laser") {
@@ -1197,73 +1413,211 @@ export function WhiteboardCanvas({
       }
       endDrawing()
     },
-    [tool, endDrawing],
+    [tool, endDrawing, recordInteraction],
   )
 
   const onPointerLeave = useCallback(() => {
+    const ia = interactionRef.current
+    if (ia) recordInteraction(ia.mode)
+    else if (drawing.current) commitChange(tool === "eraser" ? "erase" : "draw")
     drawing.current = false
+    stopHold()
     isPanningRef.current = false
     panLastRef.current = null
     interactionRef.current = null // reset selection interaction
+    marqueeRef.current = null
+    cursorRef.current = null
+    bindHintRef.current = null
     setDraft(null)
+  }, [tool, commitChange, recordInteraction, stopHold])
+
+  // The note color switcher floats above selected notes, or sits at the top of the board while
+  // the sticky tool is on. Picking a color also sets it for new notes.
+  const stickySelection =
+    tool === "select" && !editing && selection.every((el) => el.type === "sticky") ? (selection as StickyItem[]) : []
+  const notePalette =
+    stickySelection.length > 0 && selectionBBox
+      ? {
+          left: ((selectionBBox.x0 + selectionBBox.x1) / 2) * scale + offset.x,
+          top: Math.max(8, selectionBBox.y0 * scale + offset.y - 44),
+        }
+      : tool === "sticky"
+        ? { left: "50%", top: 8 }
+        : null
+  const recolorNotes = useCallback(
+    (next: string) => {
+      setStickyColor(next)
+      if (stickySelection.length === 0) return
+      board.restyleSelection({ noteColor: next })
+      commitChange("restyle")
+    },
+    [stickySelection.length, board, commitChange],
+  )
+
+  const onDoubleClick = useCallback(
+    (e: React.MouseEvent<HTMLCanvasElement>) => {
+      if (tool !== "select") return
+      const pos = getWorldPoint(e.clientX, e.clientY)
+      const hitShape = shapeUnderPointer(pos.x, pos.y)
+      if (hitShape?.type === "text" || hitShape?.type === "sticky" || hitShape?.type === "frame") {
+        startTextEdit(hitShape)
+        return
+      }
+      if (hitShape?.type !== "image") return
+      setSelectedIds([hitShape.id])
+      setCroppingId(hitShape.id)
+      toast("Cropping image", { description: "Drag the corners to crop. Press Enter or Esc when done." })
+    },
+    [tool, getWorldPoint, elements, layers, scale, setSelectedIds, startTextEdit],
+  )
+
+  // image files dropped on the canvas land where they are dropped
+  const onDragOver = useCallback((e: React.DragEvent<HTMLDivElement>) => {
+    if (e.dataTransfer.types.includes("Files")) e.preventDefault()
   }, [])
+  const onDrop = useCallback(
+    (e: React.DragEvent<HTMLDivElement>) => {
+      const files = Array.from(e.dataTransfer.files).filter(isImageFile)
+      if (files.length === 0) return
+      e.preventDefault()
+      void insertImageFiles(() => boardRef.current, files, getWorldPoint(e.clientX, e.clientY))
+    },
+    [getWorldPoint],
+  )
 
-  function splitPolylineByEraser(points: number[], path: number[], radius: number): number[][] {
-    if (points.length < 4) return [points]
-    const keep: boolean[] = []
-    for (let i = 0; i < points.length; i += 2) {
-      const px = points[i]
-      const py = points[i + 1]
-      let near = false
-      for (let j = 0; j + 1 < path.length; j += 2) {
-        const ex = path[j]
-        const ey = path[j + 1]
-        if (Math.hypot(px - ex, py - ey) <= radius) {
-          near = true
-          break
-        }
+  // adds copies on the active layer as one step and selects them
+  const insertCopies = useCallback(
+    (source: WhiteboardElement[], label: string, at?: { x: number; y: number }) => {
+      const activeLayer = layers.find((l) => l.id === activeLayerId)
+      if (activeLayer && (activeLayer.locked || !activeLayer.visible)) {
+        toast(`${activeLayer.name} is ${activeLayer.locked ? "locked" : "hidden"}`, {
+          description: `${activeLayer.locked ? "Unlock" : "Show"} it or pick another layer to paste on.`,
+        })
+        return
       }
-      keep.push(!near)
-    }
-    // Build contiguous segments with at least 2 points (4 numbers)
-    const segments: number[][] = []
-    let cur: number[] = []
-    for (let i = 0; i < keep.length; i++) {
-      if (keep[i]) {
-        cur.push(points[i * 2], points[i * 2 + 1])
-      } else {
-        if (cur.length >= 4) segments.push(cur)
-        cur = []
+      const copies = placeCopies(source, activeLayerId, at)
+      beginChange()
+      setElements((prev) => [...prev, ...copies])
+      setSelectedIds(copies.map((el) => el.id))
+      commitChange("edit", `${label} ${describeElements(copies)}`)
+    },
+    [layers, activeLayerId, beginChange, setElements, setSelectedIds, commitChange],
+  )
+
+  const copySelection = useCallback(() => {
+    copyElementsToClipboard(selection, layers, backgroundColor).catch(() =>
+      toast.error("Couldn't copy to the clipboard", { description: "The browser denied clipboard access." }),
+    )
+  }, [selection, layers, backgroundColor])
+
+  // pasting goes through the paste event, which needs no clipboard permission
+  useEffect(() => {
+    const onPaste = (e: ClipboardEvent) => {
+      const target = e.target as HTMLElement | null
+      if (target && (target.isContentEditable || /^(INPUT|TEXTAREA|SELECT)$/.test(target.tagName))) return
+      const cursor = cursorRef.current
+      const pasted = readClipboardElements(e.clipboardData)
+      if (pasted && pasted.length > 0) {
+        e.preventDefault()
+        insertCopies(pasted, "Pasted", cursor ? { x: cursor.x + PASTE_OFFSET, y: cursor.y + PASTE_OFFSET } : undefined)
+        return
       }
+      // a screenshot or copied picture becomes an image element, centred on the cursor
+      const images = Array.from(e.clipboardData?.files ?? []).filter(isImageFile)
+      if (images.length === 0) return
+      e.preventDefault()
+      void insertImageFiles(() => boardRef.current, images, cursor ?? undefined)
     }
-    if (cur.length >= 4) segments.push(cur)
-    // Ensure each segment starts with a moveable path; if segment has only 2 points, drop it
-    return segments.filter((seg) => seg.length >= 4)
-  }
+    window.addEventListener("paste", onPaste)
+    return () => window.removeEventListener("paste", onPaste)
+  }, [insertCopies])
 
   useEffect(() => {
     const onKey = (e: KeyboardEvent) => {
-      const isUndo = (e.ctrlKey || e.metaKey) && e.key.toLowerCase() === "z"
-      if (!isUndo) return
+      const target = e.target as HTMLElement | null
+      if (target && (target.isContentEditable || /^(INPUT|TEXTAREA|SELECT)$/.test(target.tagName))) return
+      if ((e.key === "Delete" || e.key === "Backspace") && tool === "select" && selection.length > 0) {
+        e.preventDefault()
+        const ids = new Set(selection.map((el) => el.id))
+        beginChange()
+        setElements((prev) => prev.filter((el) => !ids.has(el.id)))
+        setSelectedIds([])
+        commitChange("delete")
+        return
+      }
+      if (e.key === "Enter" && croppingId) {
+        setCroppingId(null)
+        return
+      }
+      const only = tool === "select" && selection.length === 1 ? selection[0] : null
+      if (e.key === "Enter" && (only?.type === "text" || only?.type === "sticky" || only?.type === "frame")) {
+        e.preventDefault()
+        startTextEdit(only)
+        return
+      }
+      if (e.key === "Tab" && only?.type === "sticky") {
+        e.preventDefault()
+        spawnNextSticky(only, e.shiftKey ? "below" : "right")
+        return
+      }
+      if (e.key === "Escape") {
+        // the first Escape leaves crop mode, the next clears the selection
+        if (croppingId) setCroppingId(null)
+        else setSelectedIds([])
+        return
+      }
+      if (!(e.ctrlKey || e.metaKey)) return
+      const key = e.key.toLowerCase()
+      if ((key === "c" || key === "x" || key === "d") && tool === "select" && selection.length > 0) {
+        e.preventDefault()
+        if (key === "d") {
+          insertCopies(selection, "Duplicated")
+          return
+        }
+        copySelection()
+        if (key === "x") {
+          const ids = new Set(selection.map((el) => el.id))
+          beginChange()
+          setElements((prev) => prev.filter((el) => !ids.has(el.id)))
+          setSelectedIds([])
+          commitChange("delete", `Cut ${describeElements(selection)}`)
+        }
+        return
+      }
+      const isRedo = (key === "z" && e.shiftKey) || key === "y"
+      const isUndo = key === "z" && !e.shiftKey
+      if (!isUndo && !isRedo) return
       e.preventDefault()
-      const snap = historyRef.current.pop()
-      if (!snap) return
-      setLines(snap.lines)
-      setRects(snap.rects)
-      setCircles(snap.circles)
-      setSimpleLines(snap.simpleLines)
-      setArrows(snap.arrows)
-      setTriangles(snap.triangles)
+      if (!(isRedo ? redo() : undo())) return
       setDraft(null)
-      setSelected(null)
       interactionRef.current = null
     }
     window.addEventListener("keydown", onKey)
     return () => window.removeEventListener("keydown", onKey)
-  }, [])
+  }, [
+    undo,
+    redo,
+    tool,
+    selection,
+    croppingId,
+    beginChange,
+    setElements,
+    setSelectedIds,
+    commitChange,
+    insertCopies,
+    copySelection,
+    startTextEdit,
+    spawnNextSticky,
+  ])
 
   return (
-    <div ref={containerRef} className="size-full" style={{ backgroundColor, position: "relative" }}>
+    <div
+      ref={containerRef}
+      className="size-full"
+      style={{ backgroundColor, position: "relative" }}
+      onDragOver={onDragOver}
+      onDrop={onDrop}
+    >
       <canvas
         ref={canvasRef}
         onWheel={handleWheel}
@@ -1271,15 +1625,74 @@ export function WhiteboardCanvas({
         onPointerMove={onPointerMove}
         onPointerUp={onPointerUp}
         onPointerLeave={onPointerLeave}
+        onDoubleClick={onDoubleClick}
         style={{
           width: "100%",
           height: "100%",
           touchAction: "none",
           display: "block",
-          cursor: tool === "pan" ? "grab" : tool === "select" ? "default" : "crosshair",
+          cursor: tool === "pan" ? "grab" : tool === "select" ? "default" : tool === "text" ? "text" : "crosshair",
         }}
         aria-label="Whiteboard canvas"
       />
+      {editing && (
+        <TextEditor
+          element={
+            editing.type === "sticky"
+              ? stickyTextBox(editing)
+              : editing.type === "frame"
+                ? frameLabel(editing)
+                : editing
+          }
+          turn={
+            rotationOf(editing)
+              ? { angle: rotationOf(editing), about: bboxCenter(getLocalBBox(editing)) }
+              : undefined
+          }
+          scale={scale}
+          offset={offset}
+          onChange={changeEditedText}
+          onDone={finishTextEdit}
+          onTab={editing.type === "sticky" ? (shift) => spawnNextSticky(editing, shift ? "below" : "right") : undefined}
+          singleLine={editing.type === "frame"}
+        />
+      )}
+      {notePalette && (
+        <NotePalette
+          position={notePalette}
+          value={stickySelection.length > 0 ? stickySelection[0].color : stickyColor}
+          onChange={recolorNotes}
+        />
+      )}
+    </div>
+  )
+}
+
+// note color swatches, centred on `position` (CSS pixels within the canvas box)
+function NotePalette({
+  position,
+  value,
+  onChange,
+}: {
+  position: { left: number | string; top: number }
+  value: string
+  onChange: (color: string) => void
+}) {
+  return (
+    <div
+      className="absolute flex -translate-x-1/2 gap-1 rounded-md border bg-popover p-1 shadow-md"
+      style={position}
+    >
+      {STICKY_COLORS.map((c) => (
+        <button
+          key={c}
+          type="button"
+          aria-label={`Note color ${c}`}
+          className={cn("size-6 rounded-sm border", c === value && "ring-2 ring-ring ring-offset-1")}
+          style={{ backgroundColor: c }}
+          onClick={() => onChange(c)}
+        />
+      ))}
     </div>
   )
 }
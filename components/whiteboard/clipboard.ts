@@ -0,0 +1,82 @@
+import { rebindCopies } from "./bindings"
+import {
+  createId,
+  getElementBBox,
+  getElementVisualBBox,
+  translateElement,
+  unionBBox,
+  type WhiteboardElement,
+} from "./elements"
+import { canvasToPngBlob, renderAreaToCanvas, type ExportArea } from "./export"
+import { parseClipboardElements, serializeClipboardElements } from "./file-format"
+import type { Layer } from "./layers"
+import { loadImages } from "./render"
+import { buildSvg } from "./svg-export"
+
+const IMAGE_PADDING = 16
+const IMAGE_SCALE = 2
+export const PASTE_OFFSET = 16 // world units between a copy and what it was copied from
+
+// Puts the elements on the system clipboard as ChalkLet JSON (as text, so any tab can read it
+// back) together with a PNG and, where the browser takes it, an SVG picture for other apps.
+export async function copyElementsToClipboard(
+  elements: WhiteboardElement[],
+  layers: Layer[],
+  backgroundColor: string,
+) {
+  const json = serializeClipboardElements(elements)
+  const bbox = unionBBox(elements.map(getElementVisualBBox))
+  if (!bbox || typeof ClipboardItem === "undefined") return navigator.clipboard.writeText(json)
+
+  const area: ExportArea = {
+    rect: {
+      x: bbox.x0 - IMAGE_PADDING,
+      y: bbox.y0 - IMAGE_PADDING,
+      width: bbox.x1 - bbox.x0 + IMAGE_PADDING * 2,
+      height: bbox.y1 - bbox.y0 + IMAGE_PADDING * 2,
+    },
+    elements,
+    layers,
+    unitsToPx: 1,
+  }
+  const imageOptions = {
+    scale: IMAGE_SCALE,
+    background: true,
+    pattern: false,
+    backgroundType: "plain" as const,
+    backgroundColor,
+  }
+  const items: Record<string, Blob | Promise<Blob>> = {
+    "text/plain": new Blob([json], { type: "text/plain" }),
+    // rendering is deferred into the promise so the write starts within the key press
+    "image/png": loadImages(elements).then(() => canvasToPngBlob(renderAreaToCanvas(area, imageOptions))),
+  }
+  if (ClipboardItem.supports?.("image/svg+xml")) {
+    items["image/svg+xml"] = new Blob([buildSvg(area, imageOptions)], { type: "image/svg+xml" })
+  }
+  try {
+    await navigator.clipboard.write([new ClipboardItem(items)])
+  } catch {
+    // some browsers only take text
+    await navigator.clipboard.writeText(json)
+  }
+}
+
+export function readClipboardElements(data: DataTransfer | null) {
+  const text = data?.getData("text/plain")
+  return text ? parseClipboardElements(text) : null
+}
+
+// Fresh copies on the given layer, keeping their arrangement. With `at`, the group's top-left
+// corner lands there; otherwise the copies sit PASTE_OFFSET down and right of the originals.
+// Connectors stay attached to the elements copied with them.
+export function placeCopies(elements: WhiteboardElement[], layerId: string, at?: { x: number; y: number }) {
+  const bbox = unionBBox(elements.map(getElementBBox))
+  const dx = at && bbox ? at.x - bbox.x0 : PASTE_OFFSET
+  const dy = at && bbox ? at.y - bbox.y0 : PASTE_OFFSET
+  const ids = new Map(elements.map((el) => [el.id, createId()]))
+  return rebindCopies(
+    elements.map((el) => ({ ...translateElement(el, dx, dy), id: ids.get(el.id)!, layerId })),
+    ids,
+  )
+}
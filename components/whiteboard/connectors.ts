@@ -0,0 +1,125 @@
+import type { ConnectorItem, ConnectorSide } from "./elements"
+import { flattenPath, type PathCommand } from "./shapes"
+
+// Routing of lines and arrows between their ends. A straight connector is one segment; an
+// elbow connector runs in horizontal and vertical legs, and a curved one is a single cubic
+// Bézier. Both leave a bound end square to its side, and a free end along whichever axis the
+// ends are further apart on. Routes are worked out from the connector alone, so hit-testing,
+// bounds, drawing and export all agree on them.
+
+const STUB = 20 // world units an elbow runs straight out of a side before it turns
+const CURVE_REACH = 0.4 // length of a curve's control arms, of the distance between its ends
+
+type Point = { x: number; y: number }
+
+const HEADINGS: Record<ConnectorSide, Point> = {
+  top: { x: 0, y: -1 },
+  right: { x: 1, y: 0 },
+  bottom: { x: 0, y: 1 },
+  left: { x: -1, y: 0 },
+}
+
+// the way out of each end: off its side if bound, else along the longer axis toward the other end
+function headings(el: ConnectorItem): [Point, Point] {
+  const dx = el.x2 - el.x1
+  const dy = el.y2 - el.y1
+  const along = (sign: number) =>
+    Math.abs(dx) >= Math.abs(dy) ? { x: sign * Math.sign(dx), y: 0 } : { x: 0, y: sign * Math.sign(dy) }
+  return [el.start ? HEADINGS[el.start.side] : along(1), el.end ? HEADINGS[el.end.side] : along(-1)]
+}
+
+// drops points that repeat or that sit midway along a straight run
+function tidy(points: Point[]) {
+  const out: Point[] = []
+  for (const p of points) {
+    const last = out[out.length - 1]
+    if (last && Math.abs(last.x - p.x) < 1e-9 && Math.abs(last.y - p.y) < 1e-9) continue
+    const before = out[out.length - 2]
+    if (before && last) {
+      const cross = (last.x - before.x) * (p.y - last.y) - (last.y - before.y) * (p.x - last.x)
+      const dot = (last.x - before.x) * (p.x - last.x) + (last.y - before.y) * (p.y - last.y)
+      if (Math.abs(cross) < 1e-9 && dot > 0) out.pop()
+    }
+    out.push(p)
+  }
+  return out
+}
+
+function elbowPoints(el: ConnectorItem): Point[] {
+  const a = { x: el.x1, y: el.y1 }
+  const b = { x: el.x2, y: el.y2 }
+  const [da, db] = headings(el)
+  const sa = el.start ? STUB : 0
+  const sb = el.end ? STUB : 0
+  const p = { x: a.x + da.x * sa, y: a.y + da.y * sa }
+  const q = { x: b.x + db.x * sb, y: b.y + db.y * sb }
+  const across = da.x !== 0
+  const points = [a, p]
+  if (across === (db.x !== 0)) {
+    // both ends leave the same way: turn twice, halfway between them
+    const mx = (p.x + q.x) / 2
+    const my = (p.y + q.y) / 2
+    points.push(across ? { x: mx, y: p.y } : { x: p.x, y: my }, across ? { x: mx, y: q.y } : { x: q.x, y: my })
+  } else {
+    points.push(across ? { x: q.x, y: p.y } : { x: p.x, y: q.y })
+  }
+  points.push(q, b)
+  return tidy(points)
+}
+
+const routes = new WeakMap<ConnectorItem, { path: PathCommand[]; points: number[] }>()
+
+function route(el: ConnectorItem) {
+  const known = routes.get(el)
+  if (known) return known
+  let path: PathCommand[]
+  if (el.routing === "elbow") {
+    path = elbowPoints(el).map((p, i) => ({ op: i === 0 ? "M" : "L", x: p.x, y: p.y }))
+  } else if (el.routing === "curved") {
+    const [da, db] = headings(el)
+    const reach = Math.hypot(el.x2 - el.x1, el.y2 - el.y1) * CURVE_REACH
+    path = [
+      { op: "M", x: el.x1, y: el.y1 },
+      {
+        op: "C",
+        x1: el.x1 + da.x * reach,
+        y1: el.y1 + da.y * reach,
+        x2: el.x2 + db.x * reach,
+        y2: el.y2 + db.y * reach,
+        x: el.x2,
+        y: el.y2,
+      },
+    ]
+  } else {
+    path = [
+      { op: "M", x: el.x1, y: el.y1 },
+      { op: "L", x: el.x2, y: el.y2 },
+    ]
+  }
+  const result = { path, points: flattenPath(path)[0] ?? [el.x1, el.y1] }
+  routes.set(el, result)
+  return result
+}
+
+// the connector's route as path commands, for drawing and export
+export function connectorPath(el: ConnectorItem) {
+  return route(el).path
+}
+
+// ... and flattened into a polyline [x,y,x,y,...], for hit-testing and bounds
+export function connectorPoints(el: ConnectorItem) {
+  return route(el).points
+}
+
+// the direction the route arrives at x2,y2 in, as a segment ending there, for the arrowhead
+export function connectorHead(el: ConnectorItem) {
+  // a curve arrives from its second control point
+  const curve = route(el).path[1]
+  if (curve?.op === "C" && (curve.x2 !== el.x2 || curve.y2 !== el.y2)) {
+    return { x1: curve.x2, y1: curve.y2, x2: el.x2, y2: el.y2 }
+  }
+  const pts = connectorPoints(el)
+  const n = pts.length
+  if (n < 4) return { x1: el.x1, y1: el.y1, x2: el.x2, y2: el.y2 }
+  return { x1: pts[n - 4], y1: pts[n - 3], x2: el.x2, y2: el.y2 }
+}
@@ -0,0 +1,881 @@
+import type { BrushStyle } from "./canvas"
+import { connectorPoints } from "./connectors"
+import { FRAME_STROKE_WIDTH, frameLabel } from "./frames"
+import { highlighterWidth } from "./highlighter"
+import { maxPenWidth, sliceStroke } from "./pressure"
+import { flattenPath, shapePath } from "./shapes"
+import { layoutText, type TextAlign, type TextFont } from "./text"
+
+// Every element on the board carries a stable `id` and a `type` tag, plus the id of the layer
+// it is drawn on (see layers.ts). The scene is a single ordered list of these, so array order
+// is stacking order within a layer (last = top-most).
+//
+// Closed shapes (rect, circle, triangle, shape) may have a `fill` color, painted at `fillOpacity`
+// (0..1, default 1) under the outline; without one they are hollow.
+//
+// Box-shaped elements (rect, circle, shape, image, text, sticky) may be turned by `rotation` radians,
+// clockwise on screen, about the centre of their box; their other fields describe them
+// unturned. Elements made of points (pen, highlighter, line, arrow, triangle) are turned by
+// moving the points.
+export type LineItem = {
+  id: string
+  layerId?: string
+  type: "pen"
+  points: number[] // world coords: [x,y,x,y,...]
+  pressures?: number[] // one per point, 0..1, for a width that varies along the stroke (see pressure.ts)
+  smoothing?: number // 0..1, how much the line through the points curves (see smoothing.ts)
+  color: string
+  strokeWidth: number
+  brushStyle: BrushStyle
+}
+
+// A highlighter stroke: drawn wide and translucent with a chisel tip, blended so that what is
+// underneath shows through (see highlighter.ts).
+export type HighlighterItem = {
+  id: string
+  layerId?: string
+  type: "highlighter"
+  points: number[] // world coords: [x,y,x,y,...]
+  color: string
+  strokeWidth: number // the broad side of the chisel tip
+}
+
+export type RectItem = {
+  id: string
+  layerId?: string
+  type: "rect"
+  x: number
+  y: number
+  width: number
+  height: number
+  cornerRadius?: number // rounds the corners, within half the shorter side
+  stroke: string
+  strokeWidth: number
+  dashed?: boolean
+  fill?: string
+  fillOpacity?: number
+  rotation?: number
+}
+// An ellipse centred on x,y; equal radii make a circle.
+export type CircleItem = {
+  id: string
+  layerId?: string
+  type: "circle"
+  x: number
+  y: number
+  radiusX: number
+  radiusY: number
+  stroke: string
+  strokeWidth: number
+  dashed?: boolean
+  fill?: string
+  fillOpacity?: number
+  rotation?: number
+}
+// How a line or arrow runs between its ends: directly, in horizontal and vertical runs, or in
+// a curve. The last two leave a bound end square to the side it is attached to.
+export type ConnectorRouting = "straight" | "elbow" | "curved"
+export type ConnectorSide = "top" | "right" | "bottom" | "left"
+// The element a line or arrow end is attached to, and where: a point of the element's unturned
+// box as fractions of its width and height, and the side of the board the connector leaves
+// by, after the element's rotation. The end's own x,y follow the element wherever it goes.
+export type ConnectorEnd = { elementId: string; x: number; y: number; side: ConnectorSide }
+export type SimpleLineItem = {
+  id: string
+  layerId?: string
+  type: "line"
+  x1: number
+  y1: number
+  x2: number
+  y2: number
+  stroke: string
+  strokeWidth: number
+  dashed?: boolean
+  routing?: ConnectorRouting // straight if absent
+  start?: ConnectorEnd // at x1,y1
+  end?: ConnectorEnd // at x2,y2
+}
+export type ArrowItem = Omit<SimpleLineItem, "type"> & { type: "arrow" }
+export type ConnectorItem = SimpleLineItem | ArrowItem
+export type TriangleItem = {
+  id: string
+  layerId?: string
+  type: "triangle"
+  x1: number
+  y1: number
+  x2: number
+  y2: number
+  x3: number
+  y3: number
+  stroke: string
+  strokeWidth: number
+  dashed?: boolean
+  fill?: string
+  fillOpacity?: number
+}
+
+// One of the shape library's outlines, stretched to fill the box at x,y (see shapes.ts).
+// `sides` is a polygon's number of sides, or a star's number of points.
+export type ShapeKind = "diamond" | "polygon" | "star" | "cylinder" | "cloud" | "parallelogram"
+export type ShapeItem = {
+  id: string
+  layerId?: string
+  type: "shape"
+  shape: ShapeKind
+  x: number
+  y: number
+  width: number
+  height: number
+  sides?: number
+  stroke: string
+  strokeWidth: number
+  dashed?: boolean
+  fill?: string
+  fillOpacity?: number
+  rotation?: number
+}
+
+// A bitmap placed at x,y and stretched to width x height. `src` is a data URL, so the picture
+// travels with the board through history, autosave, files and the clipboard. `crop` is the part
+// of the source shown, in source pixels; without it the whole image is shown.
+export type ImageItem = {
+  id: string
+  layerId?: string
+  type: "image"
+  x: number
+  y: number
+  width: number
+  height: number
+  src: string
+  naturalWidth: number
+  naturalHeight: number
+  crop?: { x: number; y: number; width: number; height: number }
+  rotation?: number
+}
+
+// A block of text with its top-left corner at x,y. Without a `width` every line is as long as
+// typed; with one, lines wrap to it. See text.ts for the layout.
+export type TextItem = {
+  id: string
+  layerId?: string
+  type: "text"
+  x: number
+  y: number
+  text: string
+  fontFamily: TextFont
+  fontSize: number
+  color: string
+  align: TextAlign
+  width?: number
+  rotation?: number
+}
+
+// A sticky note: a filled box whose text is fitted to it (see sticky.ts). `color` is the
+// note's own color.
+export type StickyItem = {
+  id: string
+  layerId?: string
+  type: "sticky"
+  x: number
+  y: number
+  width: number
+  height: number
+  color: string
+  text: string
+  rotation?: number
+}
+
+// A frame: a named region of the board, drawn as a thin outline with its name above the
+// top-left corner (see frames.ts). Frames never turn, and PDF export can print each one on a
+// sheet of its own.
+export type FrameItem = {
+  id: string
+  layerId?: string
+  type: "frame"
+  x: number
+  y: number
+  width: number
+  height: number
+  name: string
+}
+
+export type WhiteboardElement =
+  | LineItem
+  | HighlighterItem
+  | RectItem
+  | CircleItem
+  | SimpleLineItem
+  | ArrowItem
+  | TriangleItem
+  | ShapeItem
+  | ImageItem
+  | TextItem
+  | StickyItem
+  | FrameItem
+export type ElementType = WhiteboardElement["type"]
+
+export type BBox = { x0: number; y0: number; x1: number; y1: number }
+
+export type ClosedShape = RectItem | CircleItem | TriangleItem | ShapeItem
+export type TurnableElement = RectItem | CircleItem | ShapeItem | ImageItem | TextItem | StickyItem
+
+const TURNABLE: ElementType[] = ["rect", "circle", "shape", "image", "text", "sticky"]
+
+export function isTurnable(el: WhiteboardElement): el is TurnableElement {
+  return TURNABLE.includes(el.type)
+}
+
+// the element's rotation in radians; 0 for elements made of points
+export function rotationOf(el: WhiteboardElement) {
+  return isTurnable(el) ? (el.rotation ?? 0) : 0
+}
+
+// a closed shape with a visible fill, which makes its inside part of it for picking
+export function hasFill(el: WhiteboardElement): el is ClosedShape & { fill: string } {
+  if (el.type !== "rect" && el.type !== "circle" && el.type !== "triangle" && el.type !== "shape") return false
+  return el.fill != null && (el.fillOpacity ?? 1) > 0
+}
+
+export function createId() {
+  if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") return crypto.randomUUID()
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`
+}
+
+// The element's box before any rotation, which rotation turns about its centre
+export function getLocalBBox(el: WhiteboardElement): BBox {
+  switch (el.type) {
+    case "pen":
+    case "highlighter":
+    case "line":
+    case "arrow": {
+      // a connector by its route, which may reach past its ends
+      const points = el.type === "line" || el.type === "arrow" ? connectorPoints(el) : el.points
+      let x0 = Number.POSITIVE_INFINITY
+      let y0 = Number.POSITIVE_INFINITY
+      let x1 = Number.NEGATIVE_INFINITY
+      let y1 = Number.NEGATIVE_INFINITY
+      for (let i = 0; i + 1 < points.length; i += 2) {
+        x0 = Math.min(x0, points[i])
+        y0 = Math.min(y0, points[i + 1])
+        x1 = Math.max(x1, points[i])
+        y1 = Math.max(y1, points[i + 1])
+      }
+      return { x0, y0, x1, y1 }
+    }
+    case "rect":
+    case "shape":
+    case "image":
+    case "sticky":
+    case "frame":
+      return {
+        x0: Math.min(el.x, el.x + el.width),
+        y0: Math.min(el.y, el.y + el.height),
+        x1: Math.max(el.x, el.x + el.width),
+        y1: Math.max(el.y, el.y + el.height),
+      }
+    case "circle":
+      return { x0: el.x - el.radiusX, y0: el.y - el.radiusY, x1: el.x + el.radiusX, y1: el.y + el.radiusY }
+    case "triangle":
+      return {
+        x0: Math.min(el.x1, el.x2, el.x3),
+        y0: Math.min(el.y1, el.y2, el.y3),
+        x1: Math.max(el.x1, el.x2, el.x3),
+        y1: Math.max(el.y1, el.y2, el.y3),
+      }
+    case "text": {
+      const { width, height } = layoutText(el)
+      return { x0: el.x, y0: el.y, x1: el.x + width, y1: el.y + height }
+    }
+  }
+}
+
+// Turns (x, y) by `angle` about (cx, cy).
+export function rotatePoint(x: number, y: number, cx: number, cy: number, angle: number) {
+  const cos = Math.cos(angle)
+  const sin = Math.sin(angle)
+  return { x: cx + (x - cx) * cos - (y - cy) * sin, y: cy + (x - cx) * sin + (y - cy) * cos }
+}
+
+export function bboxCenter(b: BBox) {
+  return { x: (b.x0 + b.x1) / 2, y: (b.y0 + b.y1) / 2 }
+}
+
+// the corners of a box turned by `angle` about its centre, clockwise from the top-left
+export function turnedCorners(b: BBox, angle: number) {
+  const c = bboxCenter(b)
+  return [
+    [b.x0, b.y0],
+    [b.x1, b.y0],
+    [b.x1, b.y1],
+    [b.x0, b.y1],
+  ].map(([x, y]) => rotatePoint(x, y, c.x, c.y, angle))
+}
+
+// a point on the board in the element's own, unturned frame
+export function toLocalPoint(el: WhiteboardElement, x: number, y: number) {
+  const angle = rotationOf(el)
+  if (!angle) return { x, y }
+  const c = bboxCenter(getLocalBBox(el))
+  return rotatePoint(x, y, c.x, c.y, -angle)
+}
+
+// Bounds on the board, rotation included.
+export function getElementBBox(el: WhiteboardElement): BBox {
+  const b = getLocalBBox(el)
+  const angle = rotationOf(el)
+  if (!angle) return b
+  if (el.type === "circle") {
+    // the turned ellipse's own extent, which is tighter than its turned box
+    const hw = Math.hypot(el.radiusX * Math.cos(angle), el.radiusY * Math.sin(angle))
+    const hh = Math.hypot(el.radiusX * Math.sin(angle), el.radiusY * Math.cos(angle))
+    return { x0: el.x - hw, y0: el.y - hh, x1: el.x + hw, y1: el.y + hh }
+  }
+  const corners = turnedCorners(b, angle)
+  const xs = corners.map((p) => p.x)
+  const ys = corners.map((p) => p.y)
+  return { x0: Math.min(...xs), y0: Math.min(...ys), x1: Math.max(...xs), y1: Math.max(...ys) }
+}
+
+// bounding box including the painted stroke (and arrowhead), for sizing exports
+export function getElementVisualBBox(el: WhiteboardElement): BBox {
+  const b = getElementBBox(el)
+  if (el.type === "image" || el.type === "text" || el.type === "sticky") return b
+  if (el.type === "pen") {
+    const pad = maxPenWidth(el) / 2
+    return { x0: b.x0 - pad, y0: b.y0 - pad, x1: b.x1 + pad, y1: b.y1 + pad }
+  }
+  if (el.type === "frame") {
+    const pad = FRAME_STROKE_WIDTH / 2
+    const outline = { x0: b.x0 - pad, y0: b.y0 - pad, x1: b.x1 + pad, y1: b.y1 + pad }
+    return unionBBox([outline, getElementBBox(frameLabel(el))])!
+  }
+  const pad = el.strokeWidth / 2 + (el.type === "arrow" ? 10 + Math.max(0, el.strokeWidth - 2) : 0)
+  return { x0: b.x0 - pad, y0: b.y0 - pad, x1: b.x1 + pad, y1: b.y1 + pad }
+}
+
+export function unionBBox(boxes: BBox[]): BBox | null {
+  if (boxes.length === 0) return null
+  return boxes.reduce((acc, b) => ({
+    x0: Math.min(acc.x0, b.x0),
+    y0: Math.min(acc.y0, b.y0),
+    x1: Math.max(acc.x1, b.x1),
+    y1: Math.max(acc.y1, b.y1),
+  }))
+}
+
+// the part of the source image on show, in source pixels
+export function imageCrop(el: ImageItem) {
+  return el.crop ?? { x: 0, y: 0, width: el.naturalWidth, height: el.naturalHeight }
+}
+
+// the same image with nothing cropped away, at its current scale and position
+export function uncroppedImage(el: ImageItem): ImageItem {
+  const c = imageCrop(el)
+  const kx = el.width / c.width
+  const ky = el.height / c.height
+  return {
+    ...el,
+    x: el.x - c.x * kx,
+    y: el.y - c.y * ky,
+    width: el.naturalWidth * kx,
+    height: el.naturalHeight * ky,
+    crop: undefined,
+  }
+}
+
+// Shows the part of the image under `box`, clamped to the whole image. The image keeps its
+// scale, so cropping trims or uncovers it rather than stretching it.
+export function cropImage(el: ImageItem, box: BBox): ImageItem {
+  const full = uncroppedImage(el)
+  const kx = full.width / el.naturalWidth
+  const ky = full.height / el.naturalHeight
+  const x0 = Math.max(full.x, box.x0)
+  const y0 = Math.max(full.y, box.y0)
+  const x1 = Math.min(full.x + full.width, box.x1)
+  const y1 = Math.min(full.y + full.height, box.y1)
+  if (x1 - x0 < 1 || y1 - y0 < 1) return el
+  const crop = { x: (x0 - full.x) / kx, y: (y0 - full.y) / ky, width: (x1 - x0) / kx, height: (y1 - y0) / ky }
+  // within half a source pixel of the whole image counts as uncropped
+  const whole =
+    crop.x < 0.5 &&
+    crop.y < 0.5 &&
+    crop.width > el.naturalWidth - 0.5 - crop.x &&
+    crop.height > el.naturalHeight - 0.5 - crop.y
+  return { ...el, x: x0, y: y0, width: x1 - x0, height: y1 - y0, crop: whole ? undefined : crop }
+}
+
+// What the toolbar can change on selected elements. Each element takes the parts that apply.
+export type ElementStyle = {
+  color?: string
+  strokeWidth?: number
+  fontFamily?: TextFont
+  fontSize?: number
+  align?: TextAlign
+  wrap?: boolean // text: wrap to its current width, or drop the wrapping width
+  noteColor?: string // sticky notes, which ignore the pen color
+  fill?: string | null // closed shapes; null removes the fill
+  fillOpacity?: number
+  cornerRadius?: number // rectangles; 0 makes the corners sharp
+  sides?: number // polygons and stars
+  routing?: ConnectorRouting // lines and arrows
+}
+
+// pens and text keep their color in `color`, shapes in `stroke`; images and frames have no
+// style and sticky notes only their own color
+export function restyleElement<T extends WhiteboardElement>(el: T, style: ElementStyle): T {
+  const e = el as WhiteboardElement
+  switch (e.type) {
+    case "image":
+    case "frame":
+      return el
+    case "sticky":
+      return { ...e, color: style.noteColor ?? e.color } as T
+    case "text": {
+      const next = {
+        ...e,
+        color: style.color ?? e.color,
+        fontFamily: style.fontFamily ?? e.fontFamily,
+        fontSize: style.fontSize ?? e.fontSize,
+        align: style.align ?? e.align,
+      }
+      if (style.wrap === false) return { ...next, width: undefined } as T
+      if (style.wrap && e.width == null) return { ...next, width: layoutText(e).width } as T
+      return next as T
+    }
+    case "pen":
+      return { ...e, color: style.color ?? e.color, strokeWidth: style.strokeWidth ?? e.strokeWidth } as T
+    case "highlighter": {
+      // the width slider sets the pen width; highlighters are that many times wider
+      const strokeWidth = style.strokeWidth == null ? e.strokeWidth : highlighterWidth(style.strokeWidth)
+      return { ...e, color: style.color ?? e.color, strokeWidth } as T
+    }
+    case "rect":
+    case "circle":
+    case "triangle":
+    case "shape": {
+      const next = { ...e, stroke: style.color ?? e.stroke, strokeWidth: style.strokeWidth ?? e.strokeWidth }
+      if (style.fill !== undefined) next.fill = style.fill ?? undefined
+      if (style.fillOpacity !== undefined) next.fillOpacity = style.fillOpacity
+      if (next.type === "rect" && style.cornerRadius !== undefined) next.cornerRadius = style.cornerRadius || undefined
+      if (next.type === "shape" && (next.shape === "polygon" || next.shape === "star") && style.sides !== undefined) {
+        next.sides = style.sides
+      }
+      return next as T
+    }
+    case "line":
+    case "arrow": {
+      const next = { ...e, stroke: style.color ?? e.stroke, strokeWidth: style.strokeWidth ?? e.strokeWidth }
+      if (style.routing) next.routing = style.routing === "straight" ? undefined : style.routing
+      return next as T
+    }
+  }
+}
+
+export function translateElement<T extends WhiteboardElement>(el: T, dx: number, dy: number): T {
+  const e = el as WhiteboardElement
+  switch (e.type) {
+    case "pen":
+    case "highlighter":
+      return { ...e, points: e.points.map((v, i) => (i % 2 === 0 ? v + dx : v + dy)) } as T
+    case "rect":
+    case "circle":
+    case "shape":
+    case "image":
+    case "text":
+    case "sticky":
+    case "frame":
+      return { ...e, x: e.x + dx, y: e.y + dy } as T
+    case "line":
+    case "arrow":
+      return { ...e, x1: e.x1 + dx, y1: e.y1 + dy, x2: e.x2 + dx, y2: e.y2 + dy } as T
+    case "triangle":
+      return {
+        ...e,
+        x1: e.x1 + dx,
+        y1: e.y1 + dy,
+        x2: e.x2 + dx,
+        y2: e.y2 + dy,
+        x3: e.x3 + dx,
+        y3: e.y3 + dy,
+      } as T
+  }
+}
+
+// distance helpers for hit-testing
+export function distPointToSeg(px: number, py: number, x1: number, y1: number, x2: number, y2: number) {
+  const dx = x2 - x1
+  const dy = y2 - y1
+  const len2 = dx * dx + dy * dy
+  if (len2 === 0) return Math.hypot(px - x1, py - y1)
+  let t = ((px - x1) * dx + (py - y1) * dy) / len2
+  t = Math.max(0, Math.min(1, t))
+  const x = x1 + t * dx
+  const y = y1 + t * dy
+  return Math.hypot(px - x, py - y)
+}
+export function polylineHit(points: number[], px: number, py: number, thresh: number) {
+  for (let i = 0; i + 3 < points.length; i += 2) {
+    if (distPointToSeg(px, py, points[i], points[i + 1], points[i + 2], points[i + 3]) <= thresh) return true
+  }
+  return false
+}
+function pointInTriangle(tr: TriangleItem, px: number, py: number) {
+  const side = (ax: number, ay: number, bx: number, by: number) => (bx - ax) * (py - ay) - (by - ay) * (px - ax)
+  const d1 = side(tr.x1, tr.y1, tr.x2, tr.y2)
+  const d2 = side(tr.x2, tr.y2, tr.x3, tr.y3)
+  const d3 = side(tr.x3, tr.y3, tr.x1, tr.y1)
+  // inside when the point is on the same side of all three edges
+  return !((d1 < 0 || d2 < 0 || d3 < 0) && (d1 > 0 || d2 > 0 || d3 > 0))
+}
+
+export function rectHit(r: Pick<RectItem, "x" | "y" | "width" | "height">, px: number, py: number, t: number) {
+  const { x, y, width, height } = r
+  return (
+    distPointToSeg(px, py, x, y, x + width, y) <= t ||
+    distPointToSeg(px, py, x + width, y, x + width, y + height) <= t ||
+    distPointToSeg(px, py, x + width, y + height, x, y + height) <= t ||
+    distPointToSeg(px, py, x, y + height, x, y) <= t
+  )
+}
+// Distance to an ellipse's outline is measured along the ray from its centre: exact for
+// circles and close enough for picking otherwise.
+export function circleHit(c: CircleItem, px: number, py: number, t: number) {
+  const { x, y, radiusX: rx, radiusY: ry } = c
+  if (rx === 0 || ry === 0) return distPointToSeg(px, py, x - rx, y - ry, x + rx, y + ry) <= t
+  const d = Math.hypot(px - x, py - y)
+  const k = Math.hypot((px - x) / rx, (py - y) / ry) // 1 on the outline
+  return k === 0 ? Math.min(rx, ry) <= t : Math.abs(d - d / k) <= t
+}
+
+// an ellipse as a closed polyline on the board, rotation included
+function ellipseOutline(c: CircleItem, steps = 48) {
+  const points: number[] = []
+  for (let i = 0; i <= steps; i++) {
+    const a = (i / steps) * Math.PI * 2
+    const p = rotatePoint(c.x + c.radiusX * Math.cos(a), c.y + c.radiusY * Math.sin(a), c.x, c.y, c.rotation ?? 0)
+    points.push(p.x, p.y)
+  }
+  return points
+}
+export function lineHit(l: ConnectorItem, px: number, py: number, t: number) {
+  return polylineHit(connectorPoints(l), px, py, t)
+}
+export function triangleHit(tr: TriangleItem, px: number, py: number, t: number) {
+  return (
+    distPointToSeg(px, py, tr.x1, tr.y1, tr.x2, tr.y2) <= t ||
+    distPointToSeg(px, py, tr.x2, tr.y2, tr.x3, tr.y3) <= t ||
+    distPointToSeg(px, py, tr.x3, tr.y3, tr.x1, tr.y1) <= t
+  )
+}
+
+// even-odd rule, on a closed polyline [x,y,x,y,...]
+function pointInPolygon(points: number[], px: number, py: number) {
+  let inside = false
+  for (let i = 0, j = points.length - 2; i < points.length; j = i, i += 2) {
+    const [xi, yi, xj, yj] = [points[i], points[i + 1], points[j], points[j + 1]]
+    if (yi > py !== yj > py && px < ((xj - xi) * (py - yi)) / (yj - yi) + xi) inside = !inside
+  }
+  return inside
+}
+
+function isPathShape(el: WhiteboardElement): el is ShapeItem | (RectItem & { cornerRadius: number }) {
+  return el.type === "shape" || (el.type === "rect" && !!el.cornerRadius)
+}
+
+// the outline and detail lines of a library shape or rounded rectangle, on the board
+function pathPolylines(el: ShapeItem | RectItem) {
+  const { outline, details } = shapePath(el)
+  const lines = [...flattenPath(outline), ...flattenPath(details)]
+  if (!el.rotation) return lines
+  const c = bboxCenter(getLocalBBox(el))
+  return lines.map((line) => {
+    const turned: number[] = []
+    for (let i = 0; i + 1 < line.length; i += 2) {
+      const p = rotatePoint(line[i], line[i + 1], c.x, c.y, el.rotation!)
+      turned.push(p.x, p.y)
+    }
+    return turned
+  })
+}
+
+// is the point within a closed shape's area (its outline aside)?
+function insideShape(el: ClosedShape, px: number, py: number) {
+  if (isPathShape(el)) return pointInPolygon(flattenPath(shapePath(el).outline)[0], px, py)
+  switch (el.type) {
+    case "rect": {
+      // a rect dragged up or left has a negative width or height
+      const { x0, y0, x1, y1 } = getLocalBBox(el)
+      return px >= x0 && px <= x1 && py >= y0 && py <= y1
+    }
+    case "circle":
+      return Math.hypot((px - el.x) / el.radiusX, (py - el.y) / el.radiusY) <= 1
+    case "triangle":
+      return pointInTriangle(el, px, py)
+  }
+}
+
+export function hitTestElement(el: WhiteboardElement, px: number, py: number, t: number): boolean {
+  if (isTurnable(el) && el.rotation) {
+    const p = toLocalPoint(el, px, py)
+    return hitTestElement({ ...el, rotation: undefined }, p.x, p.y, t)
+  }
+  // a filled shape is picked anywhere inside, a hollow one only on its outline
+  if (hasFill(el) && insideShape(el, px, py)) return true
+  if (isPathShape(el)) return pathPolylines(el).some((line) => polylineHit(line, px, py, t))
+  switch (el.type) {
+    case "pen":
+      return polylineHit(el.points, px, py, Math.max(t, maxPenWidth(el) / 2))
+    case "highlighter":
+      return polylineHit(el.points, px, py, Math.max(t, el.strokeWidth / 2))
+    case "rect":
+      return rectHit(el, px, py, t)
+    case "circle":
+      return circleHit(el, px, py, t)
+    case "line":
+    case "arrow":
+      return lineHit(el, px, py, Math.max(t, el.strokeWidth / 2))
+    case "triangle":
+      return triangleHit(el, px, py, t)
+    case "image":
+    case "text":
+    case "sticky": {
+      // images and notes are opaque and text is picked by its box, so anywhere inside counts
+      const { x0, y0, x1, y1 } = getElementBBox(el)
+      return px >= x0 - t && px <= x1 + t && py >= y0 - t && py <= y1 + t
+    }
+    case "frame": {
+      // by the outline or the name, so what lies inside the frame can still be picked
+      if (rectHit(el, px, py, t)) return true
+      const { x0, y0, x1, y1 } = getElementBBox(frameLabel(el))
+      return px >= x0 - t && px <= x1 + t && py >= y0 - t && py <= y1 + t
+    }
+  }
+}
+
+// Liang–Barsky clip: does the segment cross or touch the box?
+function segmentIntersectsBBox(x1: number, y1: number, x2: number, y2: number, b: BBox) {
+  const dx = x2 - x1
+  const dy = y2 - y1
+  let t0 = 0
+  let t1 = 1
+  const edges = [
+    [-dx, x1 - b.x0],
+    [dx, b.x1 - x1],
+    [-dy, y1 - b.y0],
+    [dy, b.y1 - y1],
+  ]
+  for (const [p, q] of edges) {
+    if (p === 0) {
+      if (q < 0) return false
+      continue
+    }
+    const r = q / p
+    if (p < 0) {
+      if (r > t1) return false
+      t0 = Math.max(t0, r)
+    } else {
+      if (r < t0) return false
+      t1 = Math.min(t1, r)
+    }
+  }
+  return true
+}
+
+function polylineIntersectsBBox(points: number[], b: BBox) {
+  if (points.length === 2) return segmentIntersectsBBox(points[0], points[1], points[0], points[1], b)
+  for (let i = 0; i + 3 < points.length; i += 2) {
+    if (segmentIntersectsBBox(points[i], points[i + 1], points[i + 2], points[i + 3], b)) return true
+  }
+  return false
+}
+
+// For marquee selection: the element lies inside the box or its outline crosses it. A box
+// drawn entirely inside a hollow shape or a frame does not count, but one inside a filled
+// shape does; images, text and notes are solid, so any overlap does.
+export function elementIntersectsBBox(el: WhiteboardElement, b: BBox) {
+  const e = getElementBBox(el)
+  if (e.x0 >= b.x0 && e.y0 >= b.y0 && e.x1 <= b.x1 && e.y1 <= b.y1) return true
+  if (isTurnable(el) && el.rotation && el.type !== "circle") {
+    const box = turnedCorners(getLocalBBox(el), el.rotation).flatMap((p) => [p.x, p.y])
+    const outlines = isPathShape(el) ? pathPolylines(el) : [[...box, box[0], box[1]]]
+    if (outlines.some((line) => polylineIntersectsBBox(line, b))) return true
+    // as below: the box is inside if its corner is, for the kinds picked anywhere inside
+    const hollow = (el.type === "rect" || el.type === "shape") && !hasFill(el)
+    return !hollow && hitTestElement(el, b.x0, b.y0, 0)
+  }
+  // if the outline doesn't cross the box, the box is either wholly inside or wholly outside
+  const corner = toLocalPoint(el, b.x0, b.y0)
+  if (hasFill(el) && insideShape(el, corner.x, corner.y)) return true
+  if (isPathShape(el)) return pathPolylines(el).some((line) => polylineIntersectsBBox(line, b))
+  switch (el.type) {
+    case "pen":
+    case "highlighter":
+      return polylineIntersectsBBox(el.points, b)
+    case "rect":
+    case "frame": {
+      const { x0, y0, x1, y1 } = e
+      if (polylineIntersectsBBox([x0, y0, x1, y0, x1, y1, x0, y1, x0, y0], b)) return true
+      if (el.type === "rect") return false
+      // a frame also by its name
+      const l = getElementBBox(frameLabel(el))
+      return l.x0 <= b.x1 && l.x1 >= b.x0 && l.y0 <= b.y1 && l.y1 >= b.y0
+    }
+    case "circle":
+      return polylineIntersectsBBox(ellipseOutline(el), b)
+    case "line":
+    case "arrow":
+      return polylineIntersectsBBox(connectorPoints(el), b)
+    case "triangle":
+      return polylineIntersectsBBox([el.x1, el.y1, el.x2, el.y2, el.x3, el.y3, el.x1, el.y1], b)
+    case "image":
+    case "text":
+    case "sticky":
+      return e.x0 <= b.x1 && e.x1 >= b.x0 && e.y0 <= b.y1 && e.y1 >= b.y0
+  }
+}
+
+// Scale an element about an anchor point, as when a group is resized from its bounding box.
+// Text keeps its proportions, taking the mean of the two factors. A turned box keeps its
+// angle: its centre follows the scaling and its sides stretch by as much as the scaling
+// stretches them on the board. Stroke widths are unchanged.
+export function scaleElement<T extends WhiteboardElement>(
+  el: T,
+  anchor: { x: number; y: number },
+  sx: number,
+  sy: number,
+): T {
+  const X = (x: number) => anchor.x + (x - anchor.x) * sx
+  const Y = (y: number) => anchor.y + (y - anchor.y) * sy
+  const e = el as WhiteboardElement
+  if (isTurnable(e) && e.rotation) {
+    const c = bboxCenter(getLocalBBox(e))
+    const cos = Math.cos(e.rotation)
+    const sin = Math.sin(e.rotation)
+    const kw = Math.hypot(sx * cos, sy * sin)
+    const kh = Math.hypot(sx * sin, sy * cos)
+    const unturned = scaleElement({ ...e, rotation: undefined }, c, kw, kh)
+    const moved = bboxCenter(getLocalBBox(unturned))
+    return { ...translateElement(unturned, X(c.x) - moved.x, Y(c.y) - moved.y), rotation: e.rotation } as T
+  }
+  switch (e.type) {
+    case "pen":
+    case "highlighter":
+      return { ...e, points: e.points.map((v, i) => (i % 2 === 0 ? X(v) : Y(v))) } as T
+    case "rect":
+    case "shape":
+    case "image":
+    case "sticky":
+    case "frame":
+      return { ...e, x: X(e.x), y: Y(e.y), width: e.width * sx, height: e.height * sy } as T
+    case "circle":
+      return { ...e, x: X(e.x), y: Y(e.y), radiusX: e.radiusX * Math.abs(sx), radiusY: e.radiusY * Math.abs(sy) } as T
+    case "line":
+    case "arrow":
+      return { ...e, x1: X(e.x1), y1: Y(e.y1), x2: X(e.x2), y2: Y(e.y2) } as T
+    case "triangle":
+      return { ...e, x1: X(e.x1), y1: Y(e.y1), x2: X(e.x2), y2: Y(e.y2), x3: X(e.x3), y3: Y(e.y3) } as T
+    case "text": {
+      const k = (Math.abs(sx) + Math.abs(sy)) / 2
+      return { ...e, x: X(e.x), y: Y(e.y), fontSize: e.fontSize * k, width: e.width && e.width * k } as T
+    }
+  }
+}
+
+// the same angle within (-π, π]
+export function normalizeAngle(angle: number) {
+  const turn = Math.PI * 2
+  const a = angle % turn
+  return a > Math.PI ? a - turn : a <= -Math.PI ? a + turn : a
+}
+
+// Turn an element by `angle` radians about a pivot, as when a selection is rotated. Boxes move
+// their centre round the pivot and add to their rotation; elements made of points turn the points.
+// Frames only move their centre and stay upright.
+export function rotateElement<T extends WhiteboardElement>(el: T, pivot: { x: number; y: number }, angle: number): T {
+  const turn = (x: number, y: number) => rotatePoint(x, y, pivot.x, pivot.y, angle)
+  const e = el as WhiteboardElement
+  switch (e.type) {
+    case "pen":
+    case "highlighter": {
+      const points: number[] = []
+      for (let i = 0; i + 1 < e.points.length; i += 2) {
+        const p = turn(e.points[i], e.points[i + 1])
+        points.push(p.x, p.y)
+      }
+      return { ...e, points } as T
+    }
+    case "rect":
+    case "circle":
+    case "shape":
+    case "image":
+    case "text":
+    case "sticky": {
+      const c = bboxCenter(getLocalBBox(e))
+      const to = turn(c.x, c.y)
+      const rotation = normalizeAngle((e.rotation ?? 0) + angle)
+      return { ...translateElement(e, to.x - c.x, to.y - c.y), rotation: rotation || undefined } as T
+    }
+    case "frame": {
+      const c = bboxCenter(getLocalBBox(e))
+      const to = turn(c.x, c.y)
+      return translateElement(e, to.x - c.x, to.y - c.y) as T
+    }
+    case "line":
+    case "arrow": {
+      const a = turn(e.x1, e.y1)
+      const b = turn(e.x2, e.y2)
+      return { ...e, x1: a.x, y1: a.y, x2: b.x, y2: b.y } as T
+    }
+    case "triangle": {
+      const [a, b, c] = [turn(e.x1, e.y1), turn(e.x2, e.y2), turn(e.x3, e.y3)]
+      return { ...e, x1: a.x, y1: a.y, x2: b.x, y2: b.y, x3: c.x, y3: c.y } as T
+    }
+  }
+}
+
+// After a turned element was reshaped in its own frame (its box resized or cropped), moves it
+// so that the points its frame kept where they were stay put on the board too.
+export function keepTurnedInPlace<T extends WhiteboardElement>(before: T, after: T): T {
+  const angle = rotationOf(before)
+  if (!angle) return after
+  const c1 = bboxCenter(getLocalBBox(before))
+  const c2 = bboxCenter(getLocalBBox(after))
+  const to = rotatePoint(c2.x, c2.y, c1.x, c1.y, angle)
+  return translateElement(after, to.x - c2.x, to.y - c2.y)
+}
+
+// The parts of a stroke the eraser path leaves behind, each with the pressures of its points.
+export function splitPolylineByEraser(
+  stroke: Pick<LineItem, "points" | "pressures">,
+  path: number[],
+  radius: number,
+): Pick<LineItem, "points" | "pressures">[] {
+  const { points } = stroke
+  if (points.length < 4) return [stroke]
+  const keep: boolean[] = []
+  for (let i = 0; i < points.length; i += 2) {
+    const px = points[i]
+    const py = points[i + 1]
+    let near = false
+    for (let j = 0; j + 1 < path.length; j += 2) {
+      const ex = path[j]
+      const ey = path[j + 1]
+      if (Math.hypot(px - ex, py - ey) <= radius) {
+        near = true
+        break
+      }
+    }
+    keep.push(!near)
+  }
+  // a stroke the eraser missed comes back as it was, so it isn't recorded as changed
+  if (keep.every(Boolean)) return [stroke]
+  // Build contiguous runs of kept points; a run of a single point is dropped
+  const segments: Pick<LineItem, "points" | "pressures">[] = []
+  let runStart = 0
+  for (let i = 0; i <= keep.length; i++) {
+    if (i < keep.length && keep[i]) continue
+    if (i - runStart >= 2) segments.push(sliceStroke(stroke, runStart, i))
+    runStart = i + 1
+  }
+  return segments
+}
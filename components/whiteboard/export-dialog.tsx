@@ -0,0 +1,250 @@
+"use client"
+
+import { useState } from "react"
+import { format } from "date-fns"
+import { toast } from "sonner"
+import { ImageDown } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { Label } from "@/components/ui/label"
+import { Slider } from "@/components/ui/slider"
+import { Switch } from "@/components/ui/switch"
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
+import { downloadBlob } from "./download"
+import {
+  canvasToPngBlob,
+  exportPixelSize,
+  renderAreaToCanvas,
+  resolveExportArea,
+  resolveFrameAreas,
+  type ExportScope,
+  type ExportSource,
+} from "./export"
+import { buildPdf, planPdfPages, type PaperSize, type PdfLayout, type PdfSection } from "./pdf-export"
+import { loadImages } from "./render"
+import { buildSvg } from "./svg-export"
+import type { Board } from "./use-board"
+
+const SCALES = [1, 2, 3, 4]
+
+type ExportFormat = "png" | "svg" | "pdf"
+
+export function ExportDialog({ board }: { board: Board }) {
+  const [open, setOpen] = useState(false)
+  const [fileFormat, setFileFormat] = useState<ExportFormat>("png")
+  const [scope, setScope] = useState<ExportScope>("content")
+  const [scale, setScale] = useState(2)
+  const [padding, setPadding] = useState(16)
+  const [withBackground, setWithBackground] = useState(true)
+  const [withPattern, setWithPattern] = useState(true)
+  const [pdfLayout, setPdfLayout] = useState<PdfLayout>("single")
+  const [paper, setPaper] = useState<PaperSize>("a4")
+
+  const source: ExportSource = {
+    elements: board.elements,
+    layers: board.layers,
+    selectedIds: board.selectedIds,
+    viewport: { scale: board.scale, offset: board.offset, ...board.viewSize },
+    background: board.background,
+    backgroundColor: board.backgroundColor,
+  }
+  const hasSelection = source.selectedIds.length > 0
+  const effectiveScope = scope === "selection" && !hasSelection ? "content" : scope
+  const area = open ? resolveExportArea(source, effectiveScope, padding) : null
+  const size = area ? exportPixelSize(area, scale) : null
+  const hasFrames = board.pages.some((page) => page.elements.some((el) => el.type === "frame"))
+  const effectiveLayout = pdfLayout === "frames" && !hasFrames ? "single" : pdfLayout
+  // a PDF of every board page (or every frame, page by page) prints the whole of each, whatever
+  // area is picked; empty pages are left out
+  const byPage = fileFormat === "pdf" && (effectiveLayout === "pages" || effectiveLayout === "frames")
+  let sections: PdfSection[] = []
+  if (open && byPage) {
+    sections = board.pages.flatMap((page) => {
+      const pageSource = { ...source, elements: page.elements, layers: page.layers, selectedIds: [] }
+      const areas =
+        effectiveLayout === "frames"
+          ? resolveFrameAreas(pageSource, padding)
+          : [resolveExportArea(pageSource, "content", padding)].filter((a) => a != null)
+      const { background: backgroundType, backgroundColor } = page
+      return areas.map((pageArea) => ({ area: pageArea, backgroundType, backgroundColor }))
+    })
+  } else if (area) {
+    sections = [{ area, backgroundType: source.background, backgroundColor: source.backgroundColor }]
+  }
+  let summary = "Nothing to export yet."
+  if (sections.length && fileFormat === "pdf") {
+    const pages = sections.reduce((n, { area }) => n + planPdfPages(area, effectiveLayout, paper).length, 0)
+    summary = `${pages} ${pages === 1 ? "page" : "pages"}`
+  } else if (size) {
+    summary = `${size.width} × ${size.height} px${size.clamped ? " (reduced to fit the browser's canvas limit)" : ""}`
+  }
+
+  const runExport = async () => {
+    if (!sections.length) return
+    const options = {
+      scale,
+      background: withBackground,
+      pattern: withPattern,
+      backgroundType: source.background,
+      backgroundColor: source.backgroundColor,
+    }
+    const name = `board-${format(new Date(), "yyyy-MM-dd-HHmm")}`
+    try {
+      await loadImages(sections.flatMap((section) => section.area.elements))
+      if (fileFormat === "pdf") {
+        const pdf = await buildPdf(sections, { ...options, layout: effectiveLayout, paper })
+        downloadBlob(pdf, `${name}.pdf`)
+      } else if (!area) {
+        return
+      } else if (fileFormat === "svg") {
+        const svg = buildSvg(area, options)
+        downloadBlob(new Blob([svg], { type: "image/svg+xml" }), `${name}.svg`)
+      } else {
+        const blob = await canvasToPngBlob(renderAreaToCanvas(area, options))
+        downloadBlob(blob, `${name}.png`)
+      }
+      setOpen(false)
+    } catch (err) {
+      toast.error("Export failed", { description: err instanceof Error ? err.message : undefined })
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="icon" aria-label="Export" title="Export" className="text-foreground">
+          <ImageDown className="size-5" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Export</DialogTitle>
+          <DialogDescription>Save the board as a PNG image, an SVG vector drawing or a printable PDF.</DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4">
+          <div className="grid gap-2">
+            <Label>Format</Label>
+            <ToggleGroup
+              type="single"
+              variant="outline"
+              value={fileFormat}
+              onValueChange={(v) => v && setFileFormat(v as ExportFormat)}
+            >
+              <ToggleGroupItem value="png">PNG</ToggleGroupItem>
+              <ToggleGroupItem value="svg">SVG</ToggleGroupItem>
+              <ToggleGroupItem value="pdf">PDF</ToggleGroupItem>
+            </ToggleGroup>
+          </div>
+
+          <div className="grid gap-2">
+            <Label>Area</Label>
+            <ToggleGroup
+              type="single"
+              variant="outline"
+              value={byPage ? "content" : effectiveScope}
+              onValueChange={(v) => v && setScope(v as ExportScope)}
+              disabled={byPage}
+            >
+              <ToggleGroupItem value="viewport">Viewport</ToggleGroupItem>
+              <ToggleGroupItem value="content">Whole board</ToggleGroupItem>
+              <ToggleGroupItem value="selection" disabled={!hasSelection}>
+                Selection
+              </ToggleGroupItem>
+            </ToggleGroup>
+          </div>
+
+          {fileFormat === "pdf" ? (
+            <>
+              <div className="grid gap-2">
+                <Label>Pages</Label>
+                <ToggleGroup
+                  type="single"
+                  variant="outline"
+                  value={effectiveLayout}
+                  onValueChange={(v) => v && setPdfLayout(v as PdfLayout)}
+                >
+                  <ToggleGroupItem value="single">Fit on one page</ToggleGroupItem>
+                  <ToggleGroupItem value="tiled">Split at 100%</ToggleGroupItem>
+                  <ToggleGroupItem value="pages">Each board page</ToggleGroupItem>
+                  <ToggleGroupItem value="frames" disabled={!hasFrames}>
+                    Each frame
+                  </ToggleGroupItem>
+                </ToggleGroup>
+              </div>
+              <div className="grid gap-2">
+                <Label>Paper</Label>
+                <ToggleGroup
+                  type="single"
+                  variant="outline"
+                  value={paper}
+                  onValueChange={(v) => v && setPaper(v as PaperSize)}
+                >
+                  <ToggleGroupItem value="a4">A4</ToggleGroupItem>
+                  <ToggleGroupItem value="letter">Letter</ToggleGroupItem>
+                </ToggleGroup>
+              </div>
+            </>
+          ) : (
+            <div className="grid gap-2">
+              <Label>Scale</Label>
+              <ToggleGroup
+                type="single"
+                variant="outline"
+                value={String(scale)}
+                onValueChange={(v) => v && setScale(Number(v))}
+              >
+                {SCALES.map((s) => (
+                  <ToggleGroupItem key={s} value={String(s)}>
+                    {s}x
+                  </ToggleGroupItem>
+                ))}
+              </ToggleGroup>
+            </div>
+          )}
+
+          <div className="grid gap-2">
+            <div className="flex items-center justify-between">
+              <Label>Padding</Label>
+              <span className="text-xs text-muted-foreground">{padding}px</span>
+            </div>
+            <Slider value={[padding]} min={0} max={128} step={4} onValueChange={(v) => setPadding(v[0] ?? padding)} />
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="export-background">Background</Label>
+            <Switch id="export-background" checked={withBackground} onCheckedChange={setWithBackground} />
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="export-pattern">Page pattern</Label>
+            <Switch
+              id="export-pattern"
+              checked={withBackground && withPattern}
+              disabled={!withBackground || source.background === "plain"}
+              onCheckedChange={setWithPattern}
+            />
+          </div>
+
+          <p className="text-xs text-muted-foreground">
+            {summary}
+          </p>
+        </div>
+
+        <DialogFooter>
+          <Button onClick={runExport} disabled={!sections.length}>
+            Export {fileFormat.toUpperCase()}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,125 @@
+import type { BackgroundType } from "./canvas"
+import { getElementVisualBBox, getLocalBBox, unionBBox, type WhiteboardElement } from "./elements"
+import { visibleElements, type Layer } from "./layers"
+import { drawBackground, drawLayers, type WorldRect } from "./render"
+import type { Viewport } from "./use-board"
+
+export type ExportScope = "viewport" | "content" | "selection"
+
+// What an export reads from the board. Kept as plain data so exports never touch the live canvas.
+export type ExportSource = {
+  elements: WhiteboardElement[]
+  layers: Layer[]
+  selectedIds: string[]
+  viewport: Viewport & { width: number; height: number }
+  background: BackgroundType
+  backgroundColor: string
+}
+
+export type ExportArea = {
+  rect: WorldRect // world-space region, padding included
+  elements: WhiteboardElement[] // what to draw, on visible layers only
+  layers: Layer[]
+  unitsToPx: number // output pixels per world unit at 1x
+}
+
+// Browsers refuse canvases past roughly 16k px a side or ~268M px in total
+const MAX_CANVAS_SIDE = 16384
+const MAX_CANVAS_AREA = 16384 * 16384
+
+export function resolveExportArea(source: ExportSource, scope: ExportScope, padding: number): ExportArea | null {
+  // hidden layers are left out of every export
+  const shown = visibleElements(source.elements, source.layers)
+  if (scope === "viewport") {
+    const { scale, offset, width, height } = source.viewport
+    if (width <= 0 || height <= 0) return null
+    // the viewport exports at on-screen size, so padding is given in screen pixels too
+    const pad = padding / scale
+    return {
+      rect: {
+        x: -offset.x / scale - pad,
+        y: -offset.y / scale - pad,
+        width: width / scale + pad * 2,
+        height: height / scale + pad * 2,
+      },
+      elements: shown,
+      layers: source.layers,
+      unitsToPx: scale,
+    }
+  }
+
+  const selected = new Set(source.selectedIds)
+  const elements = scope === "selection" ? shown.filter((el) => selected.has(el.id)) : shown
+  const bbox = unionBBox(elements.map(getElementVisualBBox))
+  if (!bbox) return null
+  return {
+    rect: {
+      x: bbox.x0 - padding,
+      y: bbox.y0 - padding,
+      width: bbox.x1 - bbox.x0 + padding * 2,
+      height: bbox.y1 - bbox.y0 + padding * 2,
+    },
+    elements,
+    layers: source.layers,
+    unitsToPx: 1,
+  }
+}
+
+// One area per frame shown, in stacking order: the frame's box with `padding` round it, with
+// everything but the frames themselves drawn in it.
+export function resolveFrameAreas(source: ExportSource, padding: number): ExportArea[] {
+  const shown = visibleElements(source.elements, source.layers)
+  const elements = shown.filter((el) => el.type !== "frame")
+  return shown.flatMap((el) => {
+    if (el.type !== "frame") return []
+    const { x0, y0, x1, y1 } = getLocalBBox(el)
+    const rect = { x: x0 - padding, y: y0 - padding, width: x1 - x0 + padding * 2, height: y1 - y0 + padding * 2 }
+    return rect.width > 0 && rect.height > 0 ? [{ rect, elements, layers: source.layers, unitsToPx: 1 }] : []
+  })
+}
+
+// output pixel size for an area at the requested scale, shrunk to what a canvas can hold
+export function exportPixelSize(area: ExportArea, scale: number) {
+  let ratio = area.unitsToPx * scale
+  const w = area.rect.width * ratio
+  const h = area.rect.height * ratio
+  const shrink = Math.min(1, MAX_CANVAS_SIDE / w, MAX_CANVAS_SIDE / h, Math.sqrt(MAX_CANVAS_AREA / (w * h)))
+  ratio *= shrink
+  return {
+    width: Math.max(1, Math.round(area.rect.width * ratio)),
+    height: Math.max(1, Math.round(area.rect.height * ratio)),
+    ratio,
+    clamped: shrink < 1,
+  }
+}
+
+export function renderAreaToCanvas(
+  area: ExportArea,
+  options: {
+    scale: number
+    background: boolean
+    pattern: boolean
+    backgroundType: BackgroundType
+    backgroundColor: string
+  },
+) {
+  const { width, height, ratio } = exportPixelSize(area, options.scale)
+  const canvas = document.createElement("canvas")
+  canvas.width = width
+  canvas.height = height
+  const ctx = canvas.getContext("2d")
+  if (!ctx) throw new Error("Canvas 2D context is not available")
+
+  ctx.setTransform(ratio, 0, 0, ratio, -area.rect.x * ratio, -area.rect.y * ratio)
+  if (options.background) {
+    drawBackground(ctx, options.pattern ? options.backgroundType : "plain", options.backgroundColor, area.rect)
+  }
+  drawLayers(ctx, area.elements, area.layers)
+  return canvas
+}
+
+export function canvasToPngBlob(canvas: HTMLCanvasElement): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("PNG encoding failed"))), "image/png")
+  })
+}
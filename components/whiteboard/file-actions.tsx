@@ -0,0 +1,75 @@
+"use client"
+
+import { useRef } from "react"
+import { format } from "date-fns"
+import { toast } from "sonner"
+import { Download, FolderOpen } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { downloadBlob } from "./download"
+import {
+  CHALKLET_EXTENSION,
+  ChalkletFileError,
+  parseChalkletFile,
+  serializeChalkletFile,
+} from "./file-format"
+import type { Board } from "./use-board"
+
+export function FileActions({ board }: { board: Board }) {
+  const inputRef = useRef<HTMLInputElement>(null)
+
+  const save = () => {
+    const text = serializeChalkletFile(board.pages)
+    const blob = new Blob([text], { type: "application/json" })
+    downloadBlob(blob, `board-${format(new Date(), "yyyy-MM-dd-HHmm")}${CHALKLET_EXTENSION}`)
+  }
+
+  const open = async (file: File) => {
+    try {
+      const doc = parseChalkletFile(await file.text())
+      const previous = { pages: board.pages, activePageId: board.activePageId }
+      board.loadPages(
+        doc.pages.map((page) => ({
+          ...page,
+          activeLayerId: page.layers[page.layers.length - 1].id,
+          history: { undo: [], redo: [] },
+        })),
+      )
+      // opening replaces every page, so offer a way back in case it was a mistake
+      toast(`Opened ${file.name}`, {
+        action: { label: "Undo", onClick: () => board.loadPages(previous.pages, previous.activePageId) },
+      })
+    } catch (err) {
+      const message = err instanceof ChalkletFileError ? err.message : "The file could not be read."
+      toast.error(`Couldn't open ${file.name}`, { description: message })
+    }
+  }
+
+  return (
+    <div className="flex items-center gap-1">
+      <input
+        ref={inputRef}
+        type="file"
+        accept={`${CHALKLET_EXTENSION},application/json`}
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0]
+          e.target.value = "" // allow re-opening the same file
+          if (file) void open(file)
+        }}
+      />
+      <Button
+        variant="ghost"
+        size="icon"
+        aria-label="Open board"
+        title="Open board"
+        onClick={() => inputRef.current?.click()}
+        className="text-foreground"
+      >
+        <FolderOpen className="size-5" />
+      </Button>
+      <Button variant="ghost" size="icon" aria-label="Save board" title="Save board" onClick={save} className="text-foreground">
+        <Download className="size-5" />
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,478 @@
+import { z } from "zod"
+import type { BackgroundType } from "./canvas"
+import { createId, type WhiteboardElement } from "./elements"
+import { createLayer, type Layer } from "./layers"
+import { MAX_SIDES, MIN_SIDES } from "./shapes"
+
+/**
+ * The `.chalklet` file format
+ * ---------------------------
+ * A board is saved as a UTF-8 JSON document:
+ *
+ *   {
+ *     "format": "chalklet",            // always this string; identifies the file
+ *     "version": 15,                   // format version, see CHALKLET_VERSION
+ *     "pages": [                       // in sidebar order
+ *       {
+ *         "id": "…",
+ *         "name": "Page 1",
+ *         "background": "grid",        // "plain" | "dotted" | "grid" | "matrix" | "ruled"
+ *         "backgroundColor": "#ffffff",
+ *         "layers": [                  // bottom-most first
+ *           { "id": "…", "name": "Layer 1", "visible": true, "locked": false, "opacity": 1 }
+ *         ],
+ *         "elements": [ ... ]          // bottom-most first, same order as the scene
+ *       }
+ *     ]
+ *   }
+ *
+ * Version 1 files held a single page as top-level `page` and `elements` fields; version 2
+ * pages had no layers; version 3 had no image elements, version 4 no text elements,
+ * version 5 no sticky notes, version 6 no shape fills, version 7 no pen pressure, version 8
+ * no pen smoothing, version 9 no highlighter strokes and version 10 no rotation. Up to
+ * version 11 circles had a single `radius` rather than radiusX and radiusY, version 12
+ * had neither library shapes nor rounded rectangles, version 13 no connector routing or
+ * attached ends and version 14 no frames.
+ *
+ * Each element is tagged by `type` and carries an `id` that is stable and unique within its page,
+ * and optionally the `layerId` of the layer it sits on (the bottom layer if absent or unknown):
+ *   pen       { id, type, points: [x,y,x,y,...], pressures?: [p,p,...], smoothing?, color, strokeWidth, brushStyle }
+ *             (one pressure 0..1 per point; the width follows it, 0.5 being strokeWidth;
+ *             smoothing 0..1 curves the line through the points, 0 or absent is straight segments)
+ *   highlighter { id, type, points: [x,y,x,y,...], color, strokeWidth }
+ *             (drawn translucent and multiplied with a chisel tip strokeWidth across)
+ *   rect      { id, type, x, y, width, height, cornerRadius?, stroke, strokeWidth, dashed?, fill?, fillOpacity?,
+ *             rotation? }
+ *   circle    { id, type, x, y, radiusX, radiusY, stroke, strokeWidth, dashed?, fill?, fillOpacity?, rotation? }
+ *             (an ellipse centred on x,y)
+ *   shape     { id, type, shape, x, y, width, height, sides?, stroke, strokeWidth, dashed?, fill?, fillOpacity?,
+ *             rotation? }
+ *             (shape "diamond" | "polygon" | "star" | "cylinder" | "cloud" | "parallelogram", drawn to
+ *             fill the box; sides 3..12 is a polygon's corners or a star's points)
+ *   line      { id, type, x1, y1, x2, y2, stroke, strokeWidth, dashed?, routing?, start?, end? }
+ *   arrow     { id, type, x1, y1, x2, y2, stroke, strokeWidth, dashed?, routing?, start?, end? }  (head at x2,y2)
+ *             (routing "straight" | "elbow" | "curved", straight if absent; start and end attach
+ *             x1,y1 and x2,y2 to another element as { elementId, x, y, side }, where x,y are
+ *             fractions of that element's unturned box and side "top" | "right" | "bottom" |
+ *             "left" is the way the line leaves it. An end whose element is gone stays put.)
+ *   triangle  { id, type, x1, y1, x2, y2, x3, y3, stroke, strokeWidth, dashed?, fill?, fillOpacity? }
+ *             (shapes without a fill are hollow; fillOpacity is 0..1 and defaults to 1)
+ *   image     { id, type, x, y, width, height, src, naturalWidth, naturalHeight, crop?, rotation? }
+ *             (src is a data URL; crop is { x, y, width, height } in source pixels)
+ *   text      { id, type, x, y, text, fontFamily, fontSize, color, align, width?, rotation? }
+ *             (fontFamily "sans" | "mono", align "left" | "center" | "right"; lines wrap at width)
+ *   sticky    { id, type, x, y, width, height, color, text, rotation? }
+ *             (rotation is in radians, clockwise about the centre of the unturned box; the other
+ *             elements are turned by turning their points)
+ *   frame     { id, type, x, y, width, height, name }
+ *             (a named region, drawn as an outline with the name above it; never turned)
+ * All coordinates are world units.
+ *
+ * Files are written with one element per line so they diff cleanly under version control.
+ * When the format changes, bump CHALKLET_VERSION and add a step to MIGRATIONS that upgrades
+ * a document from the previous version; older files are then migrated forward on open.
+ */
+export const CHALKLET_VERSION = 15
+export const CHALKLET_EXTENSION = ".chalklet"
+
+export type ChalkletPage = {
+  id: string
+  name: string
+  background: BackgroundType
+  backgroundColor: string
+  layers: Layer[]
+  elements: WhiteboardElement[]
+}
+export type ChalkletDocument = {
+  format: "chalklet"
+  version: number
+  pages: ChalkletPage[]
+}
+
+export class ChalkletFileError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "ChalkletFileError"
+  }
+}
+
+const coord = z.number().finite()
+const brushStyleSchema = z.enum(["round", "square", "dashed"])
+const backgroundSchema = z.enum(["plain", "dotted", "grid", "matrix", "ruled"])
+const strokeFields = {
+  id: z.string().min(1),
+  layerId: z.string().optional(),
+  stroke: z.string(),
+  strokeWidth: z.number().finite().nonnegative(),
+  dashed: z.boolean().optional(),
+}
+// closed shapes only; no fill means hollow
+const fillFields = {
+  fill: z.string().optional(),
+  fillOpacity: z.number().min(0).max(1).optional(),
+}
+
+// boxes only, turned about their centre; points are turned in place instead
+const rotationField = { rotation: z.number().finite().optional() }
+
+const lineItemSchema = z.object({
+  id: z.string().min(1),
+  layerId: z.string().optional(),
+  type: z.literal("pen"),
+  points: z.array(coord).refine((pts) => pts.length % 2 === 0, "points must hold x,y pairs"),
+  pressures: z.array(z.number().min(0).max(1)).optional(),
+  smoothing: z.number().min(0).max(1).optional(),
+  color: z.string(),
+  strokeWidth: z.number().finite().nonnegative(),
+  brushStyle: brushStyleSchema,
+})
+const highlighterItemSchema = z.object({
+  id: z.string().min(1),
+  layerId: z.string().optional(),
+  type: z.literal("highlighter"),
+  points: z.array(coord).refine((pts) => pts.length % 2 === 0, "points must hold x,y pairs"),
+  color: z.string(),
+  strokeWidth: z.number().finite().nonnegative(),
+})
+const rectItemSchema = z.object({
+  ...strokeFields,
+  ...fillFields,
+  ...rotationField,
+  type: z.literal("rect"),
+  x: coord,
+  y: coord,
+  width: coord,
+  height: coord,
+  cornerRadius: z.number().finite().nonnegative().optional(),
+})
+const circleItemSchema = z.object({
+  ...strokeFields,
+  ...fillFields,
+  ...rotationField,
+  type: z.literal("circle"),
+  x: coord,
+  y: coord,
+  radiusX: z.number().finite().nonnegative(),
+  radiusY: z.number().finite().nonnegative(),
+})
+const shapeItemSchema = z.object({
+  ...strokeFields,
+  ...fillFields,
+  ...rotationField,
+  type: z.literal("shape"),
+  shape: z.enum(["diamond", "polygon", "star", "cylinder", "cloud", "parallelogram"]),
+  x: coord,
+  y: coord,
+  width: coord,
+  height: coord,
+  sides: z.number().int().min(MIN_SIDES).max(MAX_SIDES).optional(),
+})
+const connectorEndSchema = z.object({
+  elementId: z.string(),
+  x: z.number().finite(),
+  y: z.number().finite(),
+  side: z.enum(["top", "right", "bottom", "left"]),
+})
+const segmentFields = {
+  ...strokeFields,
+  x1: coord,
+  y1: coord,
+  x2: coord,
+  y2: coord,
+}
+const connectorFields = {
+  ...segmentFields,
+  routing: z.enum(["straight", "elbow", "curved"]).optional(),
+  start: connectorEndSchema.optional(),
+  end: connectorEndSchema.optional(),
+}
+const simpleLineItemSchema = z.object({ ...connectorFields, type: z.literal("line") })
+const arrowItemSchema = z.object({ ...connectorFields, type: z.literal("arrow") })
+const triangleItemSchema = z.object({
+  ...segmentFields,
+  ...fillFields,
+  type: z.literal("triangle"),
+  x3: coord,
+  y3: coord,
+})
+
+const imageItemSchema = z.object({
+  id: z.string().min(1),
+  layerId: z.string().optional(),
+  type: z.literal("image"),
+  x: coord,
+  y: coord,
+  width: coord,
+  height: coord,
+  src: z.string().startsWith("data:image/"),
+  naturalWidth: z.number().finite().positive(),
+  naturalHeight: z.number().finite().positive(),
+  crop: z
+    .object({ x: coord, y: coord, width: z.number().finite().positive(), height: z.number().finite().positive() })
+    .optional(),
+  ...rotationField,
+})
+
+const textItemSchema = z.object({
+  id: z.string().min(1),
+  layerId: z.string().optional(),
+  type: z.literal("text"),
+  x: coord,
+  y: coord,
+  text: z.string(),
+  fontFamily: z.enum(["sans", "mono"]),
+  fontSize: z.number().finite().positive(),
+  color: z.string(),
+  align: z.enum(["left", "center", "right"]),
+  width: z.number().finite().positive().optional(),
+  ...rotationField,
+})
+
+const stickyItemSchema = z.object({
+  id: z.string().min(1),
+  layerId: z.string().optional(),
+  type: z.literal("sticky"),
+  x: coord,
+  y: coord,
+  width: coord,
+  height: coord,
+  color: z.string(),
+  text: z.string(),
+  ...rotationField,
+})
+
+const frameItemSchema = z.object({
+  id: z.string().min(1),
+  layerId: z.string().optional(),
+  type: z.literal("frame"),
+  x: coord,
+  y: coord,
+  width: coord,
+  height: coord,
+  name: z.string(),
+})
+
+const elementSchema = z
+  .discriminatedUnion("type", [
+    lineItemSchema,
+    highlighterItemSchema,
+    rectItemSchema,
+    circleItemSchema,
+    shapeItemSchema,
+    simpleLineItemSchema,
+    arrowItemSchema,
+    triangleItemSchema,
+    imageItemSchema,
+    textItemSchema,
+    stickyItemSchema,
+    frameItemSchema,
+  ])
+  .refine(
+    (el) => el.type !== "pen" || !el.pressures || el.pressures.length * 2 === el.points.length,
+    "pressures must hold one value per point",
+  )
+
+const layerSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  visible: z.boolean(),
+  locked: z.boolean(),
+  opacity: z.number().min(0).max(1),
+})
+
+const pageSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  background: backgroundSchema,
+  backgroundColor: z.string(),
+  layers: z.array(layerSchema).min(1),
+  elements: z.array(elementSchema),
+})
+
+const documentSchema = z.object({
+  format: z.literal("chalklet"),
+  version: z.literal(CHALKLET_VERSION),
+  pages: z.array(pageSchema).min(1),
+})
+
+// MIGRATIONS[n] upgrades a raw version-n document to version n + 1.
+type RawDocument = Record<string, unknown> & { version: number }
+type RawElement = Record<string, unknown>
+
+// circles had one radius before they could be ellipses
+function circleToEllipse(el: RawElement): RawElement {
+  if (el.type !== "circle") return el
+  const { radius, ...rest } = el
+  return { ...rest, radiusX: radius, radiusY: radius }
+}
+
+// The parts of a raw document a step reads are checked before it runs, so a damaged old file
+// is reported like a damaged current one instead of failing inside the step.
+const rawPagesSchema = z.object({ pages: z.array(z.record(z.unknown())) }).passthrough()
+const rawPageElementsSchema = z
+  .object({ pages: z.array(z.object({ elements: z.array(z.record(z.unknown())) }).passthrough()) })
+  .passthrough()
+
+function readRaw<T extends z.ZodTypeAny>(schema: T, doc: RawDocument): z.infer<T> {
+  const result = schema.safeParse(doc)
+  if (!result.success) throw damagedFile(result.error.issues[0])
+  return result.data
+}
+
+const MIGRATIONS: Record<number, (doc: RawDocument) => RawDocument> = {
+  // single page -> list of pages
+  1: ({ page, elements, ...rest }) => ({
+    ...rest,
+    version: 2,
+    pages: [{ id: createId(), name: "Page 1", ...(page as object), elements }],
+  }),
+  // every page gets one layer holding all of its elements
+  2: (doc) => ({
+    ...doc,
+    version: 3,
+    pages: readRaw(rawPagesSchema, doc).pages.map((page) => ({ ...page, layers: [createLayer("Layer 1")] })),
+  }),
+  // image elements were added; older documents have none, so there is nothing to change
+  3: (doc) => ({ ...doc, version: 4 }),
+  // text elements were added, likewise
+  4: (doc) => ({ ...doc, version: 5 }),
+  // sticky notes were added, likewise
+  5: (doc) => ({ ...doc, version: 6 }),
+  // shapes gained optional fills, likewise
+  6: (doc) => ({ ...doc, version: 7 }),
+  // pen strokes gained optional pressures, likewise
+  7: (doc) => ({ ...doc, version: 8 }),
+  // pen strokes gained optional smoothing, likewise
+  8: (doc) => ({ ...doc, version: 9 }),
+  // highlighter strokes were added, likewise
+  9: (doc) => ({ ...doc, version: 10 }),
+  // boxes gained an optional rotation, likewise
+  10: (doc) => ({ ...doc, version: 11 }),
+  11: (doc) => ({
+    ...doc,
+    version: 12,
+    pages: readRaw(rawPageElementsSchema, doc).pages.map((page) => ({
+      ...page,
+      elements: page.elements.map(circleToEllipse),
+    })),
+  }),
+  // library shapes and rounded corners were added, likewise
+  12: (doc) => ({ ...doc, version: 13 }),
+  // lines and arrows gained optional routing and attached ends, likewise
+  13: (doc) => ({ ...doc, version: 14 }),
+  // frames were added, likewise
+  14: (doc) => ({ ...doc, version: 15 }),
+}
+
+function migrate(doc: RawDocument): RawDocument {
+  let current = doc
+  while (current.version < CHALKLET_VERSION) {
+    const step = MIGRATIONS[current.version]
+    if (!step) throw new ChalkletFileError(`Unsupported .chalklet version ${current.version}.`)
+    current = step(current)
+  }
+  return current
+}
+
+function describeIssue(issue: z.ZodIssue) {
+  const where = issue.path.length ? issue.path.join(".") : "file"
+  return `${where}: ${issue.message}`
+}
+
+function damagedFile(issue: z.ZodIssue) {
+  return new ChalkletFileError(`The board file is damaged (${describeIssue(issue)}).`)
+}
+
+export function parseChalkletFile(text: string): ChalkletDocument {
+  let raw: unknown
+  try {
+    raw = JSON.parse(text)
+  } catch {
+    throw new ChalkletFileError("This file is not valid JSON.")
+  }
+  if (!raw || typeof raw !== "object" || (raw as { format?: unknown }).format !== "chalklet") {
+    throw new ChalkletFileError("This is not a ChalkLet board file.")
+  }
+  const version = (raw as { version?: unknown }).version
+  if (typeof version !== "number" || !Number.isInteger(version) || version < 1) {
+    throw new ChalkletFileError("The file has no valid format version.")
+  }
+  if (version > CHALKLET_VERSION) {
+    throw new ChalkletFileError(
+      `This board was saved by a newer version of ChalkLet (format ${version}). Please update the app.`,
+    )
+  }
+
+  const result = documentSchema.safeParse(migrate(raw as RawDocument))
+  if (!result.success) {
+    throw damagedFile(result.error.issues[0])
+  }
+
+  // ids must be unique (page ids within the board, element ids within a page); hand-edited
+  // or merged files may break that
+  const uniqueIds = <T extends { id: string }>(items: T[]) => {
+    const seen = new Set<string>()
+    return items.map((item) => {
+      if (!seen.has(item.id)) {
+        seen.add(item.id)
+        return item
+      }
+      const id = createId()
+      seen.add(id)
+      return { ...item, id }
+    })
+  }
+  const pages = uniqueIds(result.data.pages).map((page) => ({
+    ...page,
+    layers: uniqueIds(page.layers),
+    elements: uniqueIds(page.elements),
+  }))
+  return { ...result.data, pages }
+}
+
+const indent = (text: string, spaces: number) => text.replace(/\n/g, `\n${" ".repeat(spaces)}`)
+
+function serializePage({ elements, ...page }: ChalkletPage): string {
+  const { id, name, background, backgroundColor } = page
+  const layers = page.layers.map(({ id, name, visible, locked, opacity }) => ({ id, name, visible, locked, opacity }))
+  const header = JSON.stringify({ id, name, background, backgroundColor, layers }, null, 2)
+  const body = elements.map((el) => `        ${JSON.stringify(el)}`).join(",\n")
+  // splice the one-element-per-line list into the pretty-printed page header
+  return `    ${indent(header.slice(0, -2), 4)},\n      "elements": [${body ? `\n${body}\n      ` : ""}]\n    }`
+}
+
+export function serializeChalkletFile(pages: ChalkletPage[]): string {
+  const header = JSON.stringify({ format: "chalklet", version: CHALKLET_VERSION }, null, 2)
+  return `${header.slice(0, -2)},\n  "pages": [\n${pages.map(serializePage).join(",\n")}\n  ]\n}\n`
+}
+
+// Copied elements travel through the system clipboard as a small JSON document of their own,
+// so they can be pasted into another tab or board; the elements use the same schema as files.
+const CLIPBOARD_FORMAT = "chalklet/clipboard"
+
+export function serializeClipboardElements(elements: WhiteboardElement[]): string {
+  return JSON.stringify({ format: CLIPBOARD_FORMAT, version: CHALKLET_VERSION, elements })
+}
+
+// null when the text is not (valid) copied ChalkLet content
+export function parseClipboardElements(text: string): WhiteboardElement[] | null {
+  let raw: unknown
+  try {
+    raw = JSON.parse(text)
+  } catch {
+    return null
+  }
+  const copied = z
+    .object({
+      format: z.literal(CLIPBOARD_FORMAT),
+      version: z.number().int().min(2).max(CHALKLET_VERSION),
+      elements: z.array(z.record(z.unknown())),
+    })
+    .safeParse(raw)
+  if (!copied.success) return null
+  // copies from an older version are brought up to date like a file holding one page of them
+  const { version, elements } = copied.data
+  const [page] = migrate({ version, pages: [{ elements }] }).pages as { elements: unknown }[]
+  const result = z.array(elementSchema).safeParse(page.elements)
+  return result.success ? result.data : null
+}
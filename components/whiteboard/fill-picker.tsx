@@ -0,0 +1,98 @@
+"use client"
+
+import { useRef } from "react"
+import { Ban } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { Slider } from "@/components/ui/slider"
+import { cn } from "@/lib/utils"
+
+const FILL_COLORS = ["#4b5563", "#fca5a5", "#93c5fd", "#6ee7b7", "#fde68a", "#fdba74", "#d8b4fe", "#ffffff"]
+
+// Fill for closed shapes: no fill, a swatch or a custom color, and how opaque it is.
+export function FillPicker({
+  fill,
+  fillOpacity,
+  onFillChange,
+  onFillOpacityChange,
+  onFillOpacityCommit,
+}: {
+  fill: string | null
+  fillOpacity: number
+  onFillChange: (fill: string | null) => void
+  onFillOpacityChange: (opacity: number) => void
+  onFillOpacityCommit?: () => void
+}) {
+  const customRef = useRef<HTMLInputElement>(null)
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button size="icon" variant="outline" className="size-6 rounded-sm p-0" aria-label="Fill" title="Fill">
+          {fill == null ? (
+            <Ban className="size-4 text-muted-foreground" />
+          ) : (
+            <span className="size-full rounded-sm" style={{ backgroundColor: fill, opacity: fillOpacity }} />
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-56 space-y-3">
+        <div className="flex flex-wrap items-center gap-2">
+          <Button
+            size="icon"
+            variant={fill == null ? "default" : "outline"}
+            onClick={() => onFillChange(null)}
+            aria-label="No fill"
+            title="No fill"
+            className="size-6 rounded-sm p-0"
+          >
+            <Ban className="size-4" />
+          </Button>
+          {FILL_COLORS.map((c) => (
+            <Button
+              key={c}
+              size="icon"
+              variant="outline"
+              onClick={() => onFillChange(c)}
+              aria-label={`Fill ${c}`}
+              className={cn("size-6 rounded-sm p-0", fill === c && "ring-2 ring-ring ring-offset-1")}
+              style={{ backgroundColor: c }}
+            />
+          ))}
+          <div className="relative">
+            <input
+              ref={customRef}
+              type="color"
+              value={fill ?? "#ffffff"}
+              onChange={(e) => onFillChange(e.target.value)}
+              className="absolute opacity-0 w-0 h-0"
+            />
+            <Button
+              size="icon"
+              variant="outline"
+              onClick={() => customRef.current?.click()}
+              className="size-6 rounded-sm p-0 border-dashed"
+              title="Custom fill"
+            >
+              <span className="sr-only">Custom fill</span>
+            </Button>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <span className="text-xs text-muted-foreground">Opacity</span>
+          <Slider
+            value={[Math.round(fillOpacity * 100)]}
+            min={0}
+            max={100}
+            step={5}
+            disabled={fill == null}
+            onValueChange={(v) => onFillOpacityChange((v[0] ?? 100) / 100)}
+            onValueCommit={() => onFillOpacityCommit?.()}
+            onPointerUp={() => onFillOpacityCommit?.()}
+          />
+          <span className="w-9 text-right text-xs tabular-nums">{Math.round(fillOpacity * 100)}%</span>
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
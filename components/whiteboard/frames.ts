@@ -0,0 +1,45 @@
+import type { BBox, FrameItem, TextItem, WhiteboardElement } from "./elements"
+import { layoutText } from "./text"
+
+// Frames are named regions: a thin outline with the name set small above its top-left
+// corner. They take no styling, and the name is edited like text.
+
+export const FRAME_COLOR = "#9ca3af"
+export const FRAME_STROKE_WIDTH = 1
+const FRAME_LABEL_SIZE = 14
+const FRAME_LABEL_GAP = 4 // between the name and the outline
+const FRAME_LABEL_COLOR = "#6b7280"
+
+// the frame's box with its width and height made positive
+export function frameBox(el: FrameItem): BBox {
+  return {
+    x0: Math.min(el.x, el.x + el.width),
+    y0: Math.min(el.y, el.y + el.height),
+    x1: Math.max(el.x, el.x + el.width),
+    y1: Math.max(el.y, el.y + el.height),
+  }
+}
+
+// the frame's name as a text element, placed and sized the way it is drawn
+export function frameLabel(el: FrameItem): TextItem {
+  const box = frameBox(el)
+  const text = { text: el.name, fontFamily: "sans" as const, fontSize: FRAME_LABEL_SIZE }
+  return {
+    id: el.id,
+    type: "text",
+    x: box.x0,
+    y: box.y0 - FRAME_LABEL_GAP - layoutText(text).height,
+    ...text,
+    color: FRAME_LABEL_COLOR,
+    align: "left",
+  }
+}
+
+// the first "Frame n" not yet taken, counting on from the number of frames
+export function nextFrameName(elements: WhiteboardElement[]) {
+  const names = elements.flatMap((el) => (el.type === "frame" ? [el.name] : []))
+  const taken = new Set(names)
+  let n = names.length + 1
+  while (taken.has(`Frame ${n}`)) n++
+  return `Frame ${n}`
+}
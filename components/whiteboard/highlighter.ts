@@ -0,0 +1,54 @@
+import type { HighlighterItem } from "./elements"
+
+// Highlighter strokes. The tip is a chisel: a flat nib HIGHLIGHTER_WIDTH_FACTOR times the pen
+// width across, a quarter of that thick, held at CHISEL_ANGLE. A stroke is the area the nib
+// sweeps, filled in one go so passes that cross within a stroke don't build up, then laid on
+// the board translucent and multiplied, so ink underneath stays readable.
+
+export const HIGHLIGHTER_WIDTH_FACTOR = 6
+export const HIGHLIGHTER_OPACITY = 0.4
+export const HIGHLIGHTER_BLEND: GlobalCompositeOperation = "multiply"
+const CHISEL_ANGLE = -Math.PI / 3 // of the nib's broad side, from horizontal
+const CHISEL_THICKNESS = 0.25 // of its width
+
+export function highlighterWidth(penWidth: number) {
+  return penWidth * HIGHLIGHTER_WIDTH_FACTOR
+}
+
+type Point = { x: number; y: number }
+
+// convex hull, clockwise on screen (Andrew's monotone chain)
+function hull(points: Point[]) {
+  const sorted = points.slice().sort((a, b) => a.x - b.x || a.y - b.y)
+  const cross = (o: Point, a: Point, b: Point) => (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x)
+  const half = (pts: Point[]) => {
+    const out: Point[] = []
+    for (const p of pts) {
+      while (out.length >= 2 && cross(out[out.length - 2], out[out.length - 1], p) <= 0) out.pop()
+      out.push(p)
+    }
+    out.pop()
+    return out
+  }
+  return [...half(sorted), ...half(sorted.reverse())]
+}
+
+// The swept area as convex polygons, one per segment (the nib at both ends and all between),
+// all wound the same way so they merge under the nonzero rule.
+export function chiselOutline(el: HighlighterItem): Point[][] {
+  const along = { x: (Math.cos(CHISEL_ANGLE) * el.strokeWidth) / 2, y: (Math.sin(CHISEL_ANGLE) * el.strokeWidth) / 2 }
+  const across = { x: -along.y * CHISEL_THICKNESS, y: along.x * CHISEL_THICKNESS }
+  const nib = (x: number, y: number) => [
+    { x: x - along.x - across.x, y: y - along.y - across.y },
+    { x: x + along.x - across.x, y: y + along.y - across.y },
+    { x: x + along.x + across.x, y: y + along.y + across.y },
+    { x: x - along.x + across.x, y: y - along.y + across.y },
+  ]
+  const pts = el.points
+  if (pts.length < 4) return pts.length === 2 ? [hull(nib(pts[0], pts[1]))] : []
+  const polygons: Point[][] = []
+  for (let i = 0; i + 3 < pts.length; i += 2) {
+    polygons.push(hull([...nib(pts[i], pts[i + 1]), ...nib(pts[i + 2], pts[i + 3])]))
+  }
+  return polygons
+}
@@ -0,0 +1,82 @@
+"use client"
+
+import { History } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { cn } from "@/lib/utils"
+import type { HistoryState } from "./history"
+
+// Timeline of the board: the blank start, every applied change, then the undone ones that
+// redo would bring back. Clicking a row moves the board to the state right after it. Once the
+// oldest changes have been dropped, the first row is the earliest state still kept instead.
+export function HistoryPanel({
+  history,
+  onUndo,
+  onRedo,
+}: {
+  history: HistoryState
+  onUndo: (steps: number) => void
+  onRedo: (steps: number) => void
+}) {
+  const past = history.undo
+  const future = history.redo.slice().reverse() // next redo first
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button size="icon" variant="ghost" aria-label="History" title="History">
+          <History className="size-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-64 p-1">
+        <ol className="flex max-h-80 flex-col overflow-y-auto text-sm">
+          <HistoryRow
+            label={history.trimmed ? "Earliest kept" : "Start"}
+            current={past.length === 0}
+            onClick={() => past.length > 0 && onUndo(past.length)}
+          />
+          {past.map((entry, i) => (
+            <HistoryRow
+              key={entry.id}
+              label={entry.label}
+              current={i === past.length - 1}
+              onClick={() => i < past.length - 1 && onUndo(past.length - 1 - i)}
+            />
+          ))}
+          {future.map((entry, i) => (
+            <HistoryRow key={entry.id} label={entry.label} undone onClick={() => onRedo(i + 1)} />
+          ))}
+        </ol>
+      </PopoverContent>
+    </Popover>
+  )
+}
+
+function HistoryRow({
+  label,
+  current,
+  undone,
+  onClick,
+}: {
+  label: string
+  current?: boolean
+  undone?: boolean
+  onClick: () => void
+}) {
+  return (
+    <li>
+      <button
+        type="button"
+        onClick={onClick}
+        aria-current={current ? "step" : undefined}
+        className={cn(
+          "w-full rounded-sm px-2 py-1.5 text-left hover:bg-accent hover:text-accent-foreground",
+          current && "bg-accent font-medium",
+          undone && "text-muted-foreground line-through decoration-muted-foreground/40",
+        )}
+      >
+        {label}
+      </button>
+    </li>
+  )
+}
@@ -0,0 +1,184 @@
+import { isConnector } from "./bindings"
+import type { ElementType, WhiteboardElement } from "./elements"
+import type { Layer } from "./layers"
+
+// Undo history is a list of small, invertible operations rather than copies of the board, so
+// recording, undoing and storing a change costs about as much as the change itself.
+//
+//   add / remove  an element at a z-order index (the element is kept so either side can be rebuilt)
+//   update        the fields of one element that changed, before and after
+//   move          one element from one z-order index to another
+//   layers        the page's layer list, before and after (it is short, so it is kept whole)
+//
+// Elements are never mutated in place, so operations can share element objects with the scene.
+export type ElementPatch = Record<string, unknown>
+
+export type Operation =
+  | { op: "add"; index: number; element: WhiteboardElement }
+  | { op: "remove"; index: number; element: WhiteboardElement }
+  | { op: "update"; id: string; before: ElementPatch; after: ElementPatch }
+  | { op: "move"; from: number; to: number }
+  | { op: "layers"; before: Layer[]; after: Layer[] }
+
+// What history operates on: one page's elements and layers.
+export type Scene = { elements: WhiteboardElement[]; layers: Layer[] }
+
+// One undoable step; `ops` takes the scene from before the change to after it.
+export type HistoryEntry = { id: string; label: string; ops: Operation[] }
+// `trimmed` is set once the oldest entries were dropped to stay within the history limit
+export type HistoryState = { undo: HistoryEntry[]; redo: HistoryEntry[]; trimmed?: boolean }
+
+export type ChangeKind = "draw" | "erase" | "move" | "resize" | "rotate" | "restyle" | "delete" | "edit"
+
+function patchBetween(before: WhiteboardElement, after: WhiteboardElement) {
+  const prev = before as unknown as ElementPatch
+  const next = after as unknown as ElementPatch
+  const b: ElementPatch = {}
+  const a: ElementPatch = {}
+  for (const key of new Set([...Object.keys(prev), ...Object.keys(next)])) {
+    // nested values (pen points) are replaced wholesale on edit, so identity is enough
+    if (prev[key] === next[key]) continue
+    b[key] = prev[key]
+    a[key] = next[key]
+  }
+  return { before: b, after: a }
+}
+
+// Operations that turn `before` into `after`. Applied in order: removals from the back,
+// field updates, z-order moves among the surviving elements, then insertions from the front.
+export function diffElements(before: WhiteboardElement[], after: WhiteboardElement[]): Operation[] {
+  if (before === after) return []
+  const beforeById = new Map(before.map((el) => [el.id, el]))
+  const afterIds = new Set(after.map((el) => el.id))
+  const ops: Operation[] = []
+
+  for (let i = before.length - 1; i >= 0; i--) {
+    if (!afterIds.has(before[i].id)) ops.push({ op: "remove", index: i, element: before[i] })
+  }
+
+  for (const el of after) {
+    const prev = beforeById.get(el.id)
+    if (prev && prev !== el) ops.push({ op: "update", id: el.id, ...patchBetween(prev, el) })
+  }
+
+  const order = before.filter((el) => afterIds.has(el.id)).map((el) => el.id)
+  const target = after.filter((el) => beforeById.has(el.id)).map((el) => el.id)
+  for (let i = 0; i < target.length; i++) {
+    if (order[i] === target[i]) continue
+    const from = order.indexOf(target[i], i + 1)
+    order.splice(i, 0, ...order.splice(from, 1))
+    ops.push({ op: "move", from, to: i })
+  }
+
+  after.forEach((el, index) => {
+    if (!beforeById.has(el.id)) ops.push({ op: "add", index, element: el })
+  })
+  return ops
+}
+
+export function diffScene(before: Scene, after: Scene): Operation[] {
+  const ops = diffElements(before.elements, after.elements)
+  if (before.layers !== after.layers) ops.push({ op: "layers", before: before.layers, after: after.layers })
+  return ops
+}
+
+function invert(op: Operation): Operation {
+  switch (op.op) {
+    case "add":
+      return { ...op, op: "remove" }
+    case "remove":
+      return { ...op, op: "add" }
+    case "update":
+      return { ...op, before: op.after, after: op.before }
+    case "layers":
+      return { ...op, before: op.after, after: op.before }
+    case "move":
+      return { op: "move", from: op.to, to: op.from }
+  }
+}
+
+export function applyOperations(scene: Scene, ops: Operation[], direction: "forward" | "backward"): Scene {
+  const steps = direction === "forward" ? ops : ops.map(invert).reverse()
+  const next = scene.elements.slice()
+  let layers = scene.layers
+  for (const op of steps) {
+    switch (op.op) {
+      case "add":
+        next.splice(op.index, 0, op.element)
+        break
+      case "remove":
+        next.splice(op.index, 1)
+        break
+      case "update": {
+        const i = next.findIndex((el) => el.id === op.id)
+        if (i !== -1) next[i] = { ...next[i], ...op.after } as WhiteboardElement
+        break
+      }
+      case "move":
+        next.splice(op.to, 0, ...next.splice(op.from, 1))
+        break
+      case "layers":
+        layers = op.after
+        break
+    }
+  }
+  return { elements: next, layers }
+}
+
+const NOUNS: Record<ElementType, [string, string]> = {
+  pen: ["stroke", "strokes"],
+  highlighter: ["highlight", "highlights"],
+  rect: ["rectangle", "rectangles"],
+  circle: ["circle", "circles"],
+  line: ["line", "lines"],
+  arrow: ["arrow", "arrows"],
+  triangle: ["triangle", "triangles"],
+  shape: ["shape", "shapes"],
+  image: ["image", "images"],
+  text: ["text box", "text boxes"],
+  sticky: ["sticky note", "sticky notes"],
+  frame: ["frame", "frames"],
+}
+
+export function describeElements(els: WhiteboardElement[]) {
+  if (els.length === 0) return "nothing"
+  const type = els[0].type
+  if (els.every((el) => el.type === type)) {
+    const [one, many] = NOUNS[type]
+    return els.length === 1 ? one : `${els.length} ${many}`
+  }
+  return `${els.length} elements`
+}
+
+// Human-readable label for the history panel, e.g. "Drew rectangle" or "Erased 3 strokes"
+export function describeChange(kind: ChangeKind, before: WhiteboardElement[], ops: Operation[]) {
+  const beforeById = new Map(before.map((el) => [el.id, el]))
+  const added = ops.flatMap((op) => (op.op === "add" ? [op.element] : []))
+  const removed = ops.flatMap((op) => (op.op === "remove" ? [op.element] : []))
+  // listed by their old version, which is also how a stroke cut in two is counted once
+  const changed = ops.flatMap((op) => (op.op === "update" ? [beforeById.get(op.id)!] : []))
+  // connectors that followed the elements they are attached to go without saying
+  const changedIds = new Set(changed.map((el) => el.id))
+  const moved = changed.filter(
+    (el) => !isConnector(el) || ![el.start, el.end].some((end) => end && changedIds.has(end.elementId)),
+  )
+
+  switch (kind) {
+    case "draw":
+      return `Drew ${describeElements(added)}`
+    case "erase":
+      return `Erased ${describeElements([...removed, ...changed])}`
+    case "move":
+      return `Moved ${describeElements(moved)}`
+    case "resize":
+      return `Resized ${describeElements(moved)}`
+    case "rotate":
+      return `Rotated ${describeElements(moved)}`
+    case "restyle":
+      return `Restyled ${describeElements(changed)}`
+    case "delete":
+      return `Deleted ${describeElements(removed)}`
+    case "edit":
+      return `Edited ${describeElements([...added, ...changed, ...removed])}`
+  }
+}
@@ -0,0 +1,86 @@
+import { toast } from "sonner"
+import { createId, type ImageItem } from "./elements"
+import { describeElements } from "./history"
+import type { Board } from "./use-board"
+
+const IMAGE_GAP = 16 // world units between images inserted together
+const FIT_FRACTION = 0.6 // new images fit within this share of the visible board
+
+type ImageData = Pick<ImageItem, "src" | "naturalWidth" | "naturalHeight">
+
+export function isImageFile(file: File) {
+  return file.type.startsWith("image/")
+}
+
+function readImageFile(file: File): Promise<ImageData> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onerror = () => reject(reader.error)
+    reader.onload = () => {
+      const src = reader.result as string
+      const img = new Image()
+      img.onload = () => resolve({ src, naturalWidth: img.naturalWidth, naturalHeight: img.naturalHeight })
+      img.onerror = () => reject(new Error(`${file.name} is not an image the browser can show.`))
+      img.src = src
+    }
+    reader.readAsDataURL(file)
+  })
+}
+
+// Adds the image files to the active layer as one undo step and selects them. They are laid out
+// side by side, centred on `at` (world coordinates) or else on the middle of the view, and shrunk
+// to fit the view if they are larger. The board is read through `latestBoard` once the files are
+// decoded, as the layer, page or view may have changed in the meantime.
+export async function insertImageFiles(latestBoard: () => Board, files: File[], at?: { x: number; y: number }) {
+  const images = files.filter(isImageFile)
+  if (images.length === 0) return
+
+  let loaded: ImageData[]
+  try {
+    loaded = await Promise.all(images.map(readImageFile))
+  } catch (err) {
+    toast.error("Couldn't add the image", { description: err instanceof Error ? err.message : undefined })
+    return
+  }
+
+  const board = latestBoard()
+  const activeLayer = board.layers.find((l) => l.id === board.activeLayerId)
+  if (activeLayer && (activeLayer.locked || !activeLayer.visible)) {
+    toast(`${activeLayer.name} is ${activeLayer.locked ? "locked" : "hidden"}`, {
+      description: `${activeLayer.locked ? "Unlock" : "Show"} it or pick another layer to add images to.`,
+    })
+    return
+  }
+
+  const { scale, offset } = board
+  // before the canvas has reported its size, assume a typical screen
+  const view = { width: board.viewSize.width || 1280, height: board.viewSize.height || 720 }
+  const maxWidth = (view.width * FIT_FRACTION) / scale
+  const maxHeight = (view.height * FIT_FRACTION) / scale
+  const center = at ?? { x: (view.width / 2 - offset.x) / scale, y: (view.height / 2 - offset.y) / scale }
+  const sizes = loaded.map((img) => {
+    const k = Math.min(1, maxWidth / img.naturalWidth, maxHeight / img.naturalHeight)
+    return { width: img.naturalWidth * k, height: img.naturalHeight * k }
+  })
+  let x = center.x - (sizes.reduce((sum, s) => sum + s.width, 0) + IMAGE_GAP * (sizes.length - 1)) / 2
+  const created = loaded.map<ImageItem>((img, i) => {
+    const { width, height } = sizes[i]
+    const el: ImageItem = {
+      id: createId(),
+      layerId: board.activeLayerId,
+      type: "image",
+      x,
+      y: center.y - height / 2,
+      width,
+      height,
+      ...img,
+    }
+    x += width + IMAGE_GAP
+    return el
+  })
+
+  board.beginChange()
+  board.setElements((prev) => [...prev, ...created])
+  board.setSelectedIds(created.map((el) => el.id))
+  board.commitChange("edit", `Added ${describeElements(created)}`)
+}
@@ -0,0 +1,192 @@
+"use client"
+
+import { useState } from "react"
+import { ArrowDown, ArrowUp, Eye, EyeOff, Lock, LockOpen, MoreHorizontal, Pencil, Plus, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import {
+  SidebarGroup,
+  SidebarGroupAction,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarMenu,
+  SidebarMenuButton,
+  SidebarMenuItem,
+} from "@/components/ui/sidebar"
+import { Slider } from "@/components/ui/slider"
+import { cn } from "@/lib/utils"
+import { createLayer, layerOf, nextLayerName, type Layer } from "./layers"
+import type { Board } from "./use-board"
+
+// Layers of the active page, top-most first as they stack on the canvas.
+export function LayerPanel({ board }: { board: Board }) {
+  const [renamingId, setRenamingId] = useState<string | null>(null)
+  const { layers } = board
+
+  const patchLayer = (id: string, patch: Partial<Layer>) => (ls: Layer[]) =>
+    ls.map((l) => (l.id === id ? { ...l, ...patch } : l))
+
+  const addLayer = () => {
+    const created = createLayer(nextLayerName(layers))
+    board.changeLayers((ls) => [...ls, created], `Added ${created.name}`)
+    board.setActiveLayerId(created.id)
+  }
+
+  const moveLayer = (layer: Layer, to: number) => {
+    board.changeLayers((ls) => {
+      const next = ls.filter((l) => l.id !== layer.id)
+      next.splice(to, 0, layer)
+      return next
+    }, `Reordered ${layer.name}`)
+  }
+
+  // the layer and everything on it go in one undo step
+  const deleteLayer = (layer: Layer) => {
+    board.beginChange()
+    board.setElements((els) => els.filter((el) => layerOf(el, layers).id !== layer.id))
+    board.setLayers((ls) => ls.filter((l) => l.id !== layer.id))
+    board.commitChange("edit", `Deleted ${layer.name}`)
+  }
+
+  const finishRename = (layer: Layer, name: string) => {
+    setRenamingId(null)
+    const trimmed = name.trim()
+    if (trimmed && trimmed !== layer.name) {
+      board.changeLayers(patchLayer(layer.id, { name: trimmed }), `Renamed ${layer.name} to ${trimmed}`)
+    }
+  }
+
+  return (
+    <SidebarGroup>
+      <SidebarGroupLabel>Layers</SidebarGroupLabel>
+      <SidebarGroupAction title="Add layer" onClick={addLayer}>
+        <Plus />
+        <span className="sr-only">Add layer</span>
+      </SidebarGroupAction>
+      <SidebarGroupContent>
+        <SidebarMenu>
+          {layers
+            .map((layer, index) => ({ layer, index }))
+            .reverse()
+            .map(({ layer, index }) => (
+              <SidebarMenuItem key={layer.id} className="flex items-center gap-0.5">
+                {renamingId === layer.id ? (
+                  <Input
+                    autoFocus
+                    defaultValue={layer.name}
+                    aria-label="Layer name"
+                    className="h-8 flex-1 px-2"
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") finishRename(layer, e.currentTarget.value)
+                      if (e.key === "Escape") setRenamingId(null)
+                    }}
+                    onBlur={(e) => finishRename(layer, e.currentTarget.value)}
+                  />
+                ) : (
+                  <SidebarMenuButton
+                    isActive={layer.id === board.activeLayerId}
+                    onClick={() => board.setActiveLayerId(layer.id)}
+                    onDoubleClick={() => setRenamingId(layer.id)}
+                    className={cn("flex-1", !layer.visible && "text-muted-foreground")}
+                  >
+                    <span>{layer.name}</span>
+                  </SidebarMenuButton>
+                )}
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="size-7"
+                  aria-label={layer.visible ? `Hide ${layer.name}` : `Show ${layer.name}`}
+                  title={layer.visible ? "Hide" : "Show"}
+                  onClick={() =>
+                    board.changeLayers(
+                      patchLayer(layer.id, { visible: !layer.visible }),
+                      `${layer.visible ? "Hid" : "Showed"} ${layer.name}`,
+                    )
+                  }
+                >
+                  {layer.visible ? <Eye className="size-4" /> : <EyeOff className="size-4" />}
+                </Button>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="size-7"
+                  aria-label={layer.locked ? `Unlock ${layer.name}` : `Lock ${layer.name}`}
+                  title={layer.locked ? "Unlock" : "Lock"}
+                  onClick={() =>
+                    board.changeLayers(
+                      patchLayer(layer.id, { locked: !layer.locked }),
+                      `${layer.locked ? "Unlocked" : "Locked"} ${layer.name}`,
+                    )
+                  }
+                >
+                  {layer.locked ? <Lock className="size-4" /> : <LockOpen className="size-4" />}
+                </Button>
+                <Popover>
+                  <PopoverTrigger asChild>
+                    <Button size="icon" variant="ghost" className="size-7" aria-label={`${layer.name} options`}>
+                      <MoreHorizontal className="size-4" />
+                    </Button>
+                  </PopoverTrigger>
+                  <PopoverContent side="right" align="start" className="grid w-56 gap-3 p-3">
+                    <div className="grid gap-2">
+                      <div className="flex items-center justify-between text-xs">
+                        <span className="text-muted-foreground">Opacity</span>
+                        <span>{Math.round(layer.opacity * 100)}%</span>
+                      </div>
+                      {/* previews live while dragging, recorded as one step on release */}
+                      <Slider
+                        value={[layer.opacity * 100]}
+                        min={0}
+                        max={100}
+                        step={5}
+                        onValueChange={(v) => {
+                          board.beginChange()
+                          board.setLayers(patchLayer(layer.id, { opacity: (v[0] ?? 100) / 100 }))
+                        }}
+                        onValueCommit={() => board.commitChange("edit", `Changed opacity of ${layer.name}`)}
+                        onPointerUp={() => board.commitChange("edit", `Changed opacity of ${layer.name}`)}
+                      />
+                    </div>
+                    <div className="grid gap-1">
+                      <Button variant="ghost" size="sm" className="justify-start" onClick={() => setRenamingId(layer.id)}>
+                        <Pencil /> Rename
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="justify-start"
+                        disabled={index === layers.length - 1}
+                        onClick={() => moveLayer(layer, index + 1)}
+                      >
+                        <ArrowUp /> Move up
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="justify-start"
+                        disabled={index === 0}
+                        onClick={() => moveLayer(layer, index - 1)}
+                      >
+                        <ArrowDown /> Move down
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="justify-start text-destructive hover:text-destructive"
+                        disabled={layers.length === 1}
+                        onClick={() => deleteLayer(layer)}
+                      >
+                        <Trash2 /> Delete
+                      </Button>
+                    </div>
+                  </PopoverContent>
+                </Popover>
+              </SidebarMenuItem>
+            ))}
+        </SidebarMenu>
+      </SidebarGroupContent>
+    </SidebarGroup>
+  )
+}
@@ -0,0 +1,50 @@
+import { createId, type WhiteboardElement } from "./elements"
+
+// Layers split a page's scene into named stacks, listed bottom to top. An element belongs to
+// the layer its `layerId` names; elements without one, or whose layer is gone, sit on the
+// bottom layer. Within a layer, scene order is still stacking order.
+export type Layer = {
+  id: string
+  name: string
+  visible: boolean
+  locked: boolean
+  opacity: number // 0..1, applied to everything on the layer
+}
+
+export function createLayer(name: string): Layer {
+  return { id: createId(), name, visible: true, locked: false, opacity: 1 }
+}
+
+// first "Layer N" name not already taken
+export function nextLayerName(layers: Layer[]) {
+  const taken = new Set(layers.map((l) => l.name))
+  let n = layers.length + 1
+  while (taken.has(`Layer ${n}`)) n++
+  return `Layer ${n}`
+}
+
+export function layerOf(el: WhiteboardElement, layers: Layer[]) {
+  return layers.find((l) => l.id === el.layerId) ?? layers[0]
+}
+
+// Visible layers bottom to top, each with its elements in scene order.
+export function stackLayers(elements: WhiteboardElement[], layers: Layer[]) {
+  const stacks = layers.map((layer) => ({ layer, elements: [] as WhiteboardElement[] }))
+  const byId = new Map(stacks.map((s) => [s.layer.id, s]))
+  for (const el of elements) (byId.get(el.layerId ?? "") ?? stacks[0])?.elements.push(el)
+  return stacks.filter((s) => s.layer.visible)
+}
+
+export function visibleElements(elements: WhiteboardElement[], layers: Layer[]) {
+  return stackLayers(elements, layers).flatMap((s) => s.elements)
+}
+
+// What pointer tools may touch: shown and unlocked, bottom to top.
+export function editableElements(elements: WhiteboardElement[], layers: Layer[]) {
+  return stackLayers(elements, layers).flatMap((s) => (s.layer.locked ? [] : s.elements))
+}
+
+export function isEditable(el: WhiteboardElement, layers: Layer[]) {
+  const layer = layerOf(el, layers)
+  return !layer || (layer.visible && !layer.locked)
+}
@@ -0,0 +1,219 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { toast } from "sonner"
+import { ArrowDown, ArrowUp, Copy, MoreHorizontal, Pencil, Plus, Trash2 } from "lucide-react"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { Input } from "@/components/ui/input"
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarGroup,
+  SidebarGroupAction,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarMenu,
+  SidebarMenuAction,
+  SidebarMenuButton,
+  SidebarMenuItem,
+  SidebarRail,
+} from "@/components/ui/sidebar"
+import { cn } from "@/lib/utils"
+import { getElementVisualBBox, unionBBox } from "./elements"
+import { LayerPanel } from "./layer-panel"
+import { visibleElements } from "./layers"
+import { drawBackground, drawLayers, loadImages } from "./render"
+import type { Board, BoardPage } from "./use-board"
+
+const THUMB_WIDTH = 208 // CSS px, fills the sidebar column
+const THUMB_HEIGHT = 117 // 16:9
+const THUMB_PADDING = 24 // world units around the content
+const THUMB_DELAY = 250 // ms; redraw once edits settle rather than on every pointer move
+
+function PageThumbnail({ page }: { page: BoardPage }) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    const draw = () => {
+      const canvas = canvasRef.current
+      const ctx = canvas?.getContext("2d")
+      if (cancelled || !canvas || !ctx) return
+      const dpr = Math.max(1, Math.min(window.devicePixelRatio || 1, 2))
+      canvas.width = THUMB_WIDTH * dpr
+      canvas.height = THUMB_HEIGHT * dpr
+
+      // fit the page content, or a screen-sized patch of empty page
+      const shown = visibleElements(page.elements, page.layers)
+      const bbox = unionBBox(shown.map(getElementVisualBBox)) ?? { x0: 0, y0: 0, x1: 960, y1: 540 }
+      const w = bbox.x1 - bbox.x0 + THUMB_PADDING * 2
+      const h = bbox.y1 - bbox.y0 + THUMB_PADDING * 2
+      const k = Math.min(THUMB_WIDTH / w, THUMB_HEIGHT / h)
+      const view = {
+        x: (bbox.x0 + bbox.x1) / 2 - THUMB_WIDTH / k / 2,
+        y: (bbox.y0 + bbox.y1) / 2 - THUMB_HEIGHT / k / 2,
+        width: THUMB_WIDTH / k,
+        height: THUMB_HEIGHT / k,
+      }
+      ctx.setTransform(k * dpr, 0, 0, k * dpr, -view.x * k * dpr, -view.y * k * dpr)
+      drawBackground(ctx, page.background, page.backgroundColor, view)
+      drawLayers(ctx, shown, page.layers)
+    }
+    // images on the page are decoded first so the thumbnail doesn't show placeholders
+    const timer = window.setTimeout(() => loadImages(page.elements).then(draw), THUMB_DELAY)
+    return () => {
+      cancelled = true
+      window.clearTimeout(timer)
+    }
+  }, [page.elements, page.layers, page.background, page.backgroundColor])
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className="w-full rounded-sm border border-sidebar-border"
+      style={{ aspectRatio: `${THUMB_WIDTH} / ${THUMB_HEIGHT}`, backgroundColor: page.backgroundColor }}
+      aria-hidden
+    />
+  )
+}
+
+export function PageSidebar({ board }: { board: Board }) {
+  const [renamingId, setRenamingId] = useState<string | null>(null)
+  const [dragId, setDragId] = useState<string | null>(null)
+  const [dropIndex, setDropIndex] = useState<number | null>(null)
+  const { pages } = board
+
+  const remove = (page: BoardPage) => {
+    const removed = board.deletePage(page.id)
+    if (!removed) return
+    toast(`Deleted ${page.name}`, {
+      action: { label: "Undo", onClick: () => board.insertPage(removed.page, removed.index) },
+    })
+  }
+
+  const finishRename = (page: BoardPage, name: string) => {
+    setRenamingId(null)
+    const trimmed = name.trim()
+    if (trimmed && trimmed !== page.name) board.renamePage(page.id, trimmed)
+  }
+
+  return (
+    <Sidebar collapsible="offcanvas">
+      <SidebarContent>
+        <SidebarGroup>
+          <SidebarGroupLabel>Pages</SidebarGroupLabel>
+          <SidebarGroupAction title="Add page" onClick={board.addPage}>
+            <Plus />
+            <span className="sr-only">Add page</span>
+          </SidebarGroupAction>
+          <SidebarGroupContent>
+            <SidebarMenu>
+              {pages.map((page, index) => (
+                <SidebarMenuItem
+                  key={page.id}
+                  draggable={renamingId !== page.id}
+                  onDragStart={(e) => {
+                    e.dataTransfer.effectAllowed = "move"
+                    setDragId(page.id)
+                  }}
+                  onDragOver={(e) => {
+                    if (!dragId) return
+                    e.preventDefault()
+                    setDropIndex(index)
+                  }}
+                  onDrop={(e) => {
+                    e.preventDefault()
+                    if (dragId) board.movePage(dragId, index)
+                  }}
+                  onDragEnd={() => {
+                    setDragId(null)
+                    setDropIndex(null)
+                  }}
+                  className={cn(
+                    "rounded-md",
+                    dragId === page.id && "opacity-50",
+                    dropIndex === index && dragId !== page.id && "ring-2 ring-sidebar-ring",
+                  )}
+                >
+                  <SidebarMenuButton
+                    isActive={page.id === board.activePageId}
+                    onClick={() => board.selectPage(page.id)}
+                    onDoubleClick={() => setRenamingId(page.id)}
+                    className="h-auto flex-col items-stretch gap-1.5 p-1.5"
+                  >
+                    <PageThumbnail page={page} />
+                    {renamingId !== page.id && (
+                      <span className="px-0.5 text-xs">
+                        {index + 1}. {page.name}
+                      </span>
+                    )}
+                  </SidebarMenuButton>
+                  {renamingId === page.id && (
+                    <Input
+                      autoFocus
+                      defaultValue={page.name}
+                      aria-label="Page name"
+                      className="mt-1 h-7 px-2"
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter") finishRename(page, e.currentTarget.value)
+                        if (e.key === "Escape") setRenamingId(null)
+                      }}
+                      onBlur={(e) => finishRename(page, e.currentTarget.value)}
+                    />
+                  )}
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <SidebarMenuAction showOnHover className="top-2.5 right-2.5 bg-sidebar/80">
+                        <MoreHorizontal />
+                        <span className="sr-only">Page actions</span>
+                      </SidebarMenuAction>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent
+                      side="right"
+                      align="start"
+                      // keep focus on the rename field instead of handing it back to the trigger
+                      onCloseAutoFocus={(e) => e.preventDefault()}
+                    >
+                      <DropdownMenuItem onSelect={() => setRenamingId(page.id)}>
+                        <Pencil />
+                        Rename
+                      </DropdownMenuItem>
+                      <DropdownMenuItem onSelect={() => board.duplicatePage(page.id)}>
+                        <Copy />
+                        Duplicate
+                      </DropdownMenuItem>
+                      <DropdownMenuItem disabled={index === 0} onSelect={() => board.movePage(page.id, index - 1)}>
+                        <ArrowUp />
+                        Move up
+                      </DropdownMenuItem>
+                      <DropdownMenuItem
+                        disabled={index === pages.length - 1}
+                        onSelect={() => board.movePage(page.id, index + 1)}
+                      >
+                        <ArrowDown />
+                        Move down
+                      </DropdownMenuItem>
+                      <DropdownMenuSeparator />
+                      <DropdownMenuItem variant="destructive" disabled={pages.length === 1} onSelect={() => remove(page)}>
+                        <Trash2 />
+                        Delete
+                      </DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                </SidebarMenuItem>
+              ))}
+            </SidebarMenu>
+          </SidebarGroupContent>
+        </SidebarGroup>
+        <LayerPanel board={board} />
+      </SidebarContent>
+      <SidebarRail />
+    </Sidebar>
+  )
+}
@@ -0,0 +1,190 @@
+import type { BackgroundType } from "./canvas"
+import { getElementVisualBBox } from "./elements"
+import { renderAreaToCanvas, type ExportArea } from "./export"
+import type { WorldRect } from "./render"
+
+// Client-side PDF export. Each page is rendered through the same drawing code as the screen
+// (renderAreaToCanvas) at print resolution and embedded as a JPEG, so the PDF matches the board
+// for every element type without a separate vector path. The writer below emits just enough
+// of PDF 1.4 for that: a page tree, one image XObject and one content stream per page.
+
+// single: the area fitted on one sheet; tiled: printed at 100% across as many sheets as it
+// takes; pages: every board page fitted on a sheet of its own; frames: likewise every frame
+export type PdfLayout = "single" | "tiled" | "pages" | "frames"
+export type PaperSize = "a4" | "letter"
+
+const PAPER: Record<PaperSize, { width: number; height: number }> = {
+  a4: { width: 595.28, height: 841.89 },
+  letter: { width: 612, height: 792 },
+}
+const MARGIN = 36 // pt, half an inch
+const PT_PER_UNIT = 0.75 // one world unit is one CSS pixel at 100%, and a CSS pixel is 3/4 pt
+const RASTER_DPI = 192 // 2x screen density; sharp in print without bloating the file
+const JPEG_QUALITY = 0.92
+
+// A part of the board to print, with the page background it sits on. The per-page and
+// per-frame layouts print one for each board page or frame; the others print just the
+// exported area.
+export type PdfSection = {
+  area: ExportArea
+  backgroundType: BackgroundType
+  backgroundColor: string
+}
+
+type PlannedPage = {
+  width: number // page size, pt
+  height: number
+  region: WorldRect // part of the board shown on this page
+  placement: { x: number; y: number; width: number; height: number } // where it lands, pt from top-left
+}
+
+function paperFor(paper: PaperSize, landscape: boolean) {
+  const { width, height } = PAPER[paper]
+  return landscape ? { width: height, height: width } : { width, height }
+}
+
+function intersects(a: WorldRect, b: { x0: number; y0: number; x1: number; y1: number }) {
+  return b.x1 >= a.x && b.x0 <= a.x + a.width && b.y1 >= a.y && b.y0 <= a.y + a.height
+}
+
+export function planPdfPages(area: ExportArea, layout: PdfLayout, paper: PaperSize): PlannedPage[] {
+  const { rect } = area
+  const landscape = rect.width > rect.height
+
+  if (layout !== "tiled") {
+    // whole area scaled to fit one sheet, centered
+    const page = paperFor(paper, landscape)
+    const k = Math.min((page.width - MARGIN * 2) / rect.width, (page.height - MARGIN * 2) / rect.height)
+    const w = rect.width * k
+    const h = rect.height * k
+    return [
+      {
+        ...page,
+        region: rect,
+        placement: { x: (page.width - w) / 2, y: (page.height - h) / 2, width: w, height: h },
+      },
+    ]
+  }
+
+  // tiled: print at 100% and cut the area into sheet-sized tiles, reading order
+  const page = paperFor(paper, landscape)
+  const tileW = (page.width - MARGIN * 2) / PT_PER_UNIT
+  const tileH = (page.height - MARGIN * 2) / PT_PER_UNIT
+  const cols = Math.max(1, Math.ceil(rect.width / tileW))
+  const rows = Math.max(1, Math.ceil(rect.height / tileH))
+  const boxes = area.elements.map(getElementVisualBBox)
+  const pages: PlannedPage[] = []
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      const region = {
+        x: rect.x + c * tileW,
+        y: rect.y + r * tileH,
+        width: Math.min(tileW, rect.width - c * tileW),
+        height: Math.min(tileH, rect.height - r * tileH),
+      }
+      // leave out sheets that would come out blank
+      if (boxes.length && !boxes.some((b) => intersects(region, b))) continue
+      pages.push({
+        ...page,
+        region,
+        placement: { x: MARGIN, y: MARGIN, width: region.width * PT_PER_UNIT, height: region.height * PT_PER_UNIT },
+      })
+    }
+  }
+  return pages
+}
+
+type RenderedPage = PlannedPage & { jpeg: Uint8Array; pxWidth: number; pxHeight: number }
+
+async function renderPage(
+  page: PlannedPage,
+  source: ExportArea,
+  options: { background: boolean; pattern: boolean; backgroundType: BackgroundType; backgroundColor: string },
+): Promise<RenderedPage> {
+  const area: ExportArea = { ...source, rect: page.region, unitsToPx: 1 }
+  const scale = (page.placement.width / page.region.width) * (RASTER_DPI / 72)
+  // JPEG has no alpha: with the page background off, render onto plain white paper
+  const canvas = renderAreaToCanvas(area, {
+    scale,
+    background: true,
+    pattern: options.background && options.pattern,
+    backgroundType: options.backgroundType,
+    backgroundColor: options.background ? options.backgroundColor : "#ffffff",
+  })
+  const blob = await new Promise<Blob>((resolve, reject) =>
+    canvas.toBlob((b) => (b ? resolve(b) : reject(new Error("JPEG encoding failed"))), "image/jpeg", JPEG_QUALITY),
+  )
+  return {
+    ...page,
+    jpeg: new Uint8Array(await blob.arrayBuffer()),
+    pxWidth: canvas.width,
+    pxHeight: canvas.height,
+  }
+}
+
+const pt = (v: number) => String(Math.round(v * 100) / 100)
+
+function writePdf(pages: RenderedPage[]): Blob {
+  const encoder = new TextEncoder()
+  const chunks: Uint8Array[] = []
+  const offsets: number[] = []
+  let length = 0
+  const push = (data: string | Uint8Array) => {
+    const bytes = typeof data === "string" ? encoder.encode(data) : data
+    chunks.push(bytes)
+    length += bytes.length
+  }
+  const object = (id: number, ...body: Array<string | Uint8Array>) => {
+    offsets[id] = length
+    push(`${id} 0 obj\n`)
+    body.forEach(push)
+    push("\nendobj\n")
+  }
+
+  // object ids: 1 catalog, 2 page tree, then page / content / image per page
+  const pageId = (i: number) => 3 + i * 3
+  push("%PDF-1.4\n%âãÏÓ\n")
+  object(1, "<< /Type /Catalog /Pages 2 0 R >>")
+  object(2, `<< /Type /Pages /Kids [${pages.map((_, i) => `${pageId(i)} 0 R`).join(" ")}] /Count ${pages.length} >>`)
+  pages.forEach((page, i) => {
+    const id = pageId(i)
+    const { x, y, width, height } = page.placement
+    // PDF space starts bottom-left; placement is measured from the top
+    const content = `q ${pt(width)} 0 0 ${pt(height)} ${pt(x)} ${pt(page.height - y - height)} cm /Im0 Do Q`
+    object(
+      id,
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${pt(page.width)} ${pt(page.height)}] ` +
+        `/Resources << /XObject << /Im0 ${id + 2} 0 R >> >> /Contents ${id + 1} 0 R >>`,
+    )
+    object(id + 1, `<< /Length ${content.length} >>\nstream\n${content}\nendstream`)
+    object(
+      id + 2,
+      `<< /Type /XObject /Subtype /Image /Width ${page.pxWidth} /Height ${page.pxHeight} /ColorSpace /DeviceRGB ` +
+        `/BitsPerComponent 8 /Filter /DCTDecode /Length ${page.jpeg.length} >>\nstream\n`,
+      page.jpeg,
+      "\nendstream",
+    )
+  })
+
+  const count = 3 + pages.length * 3
+  const xref = length
+  push(`xref\n0 ${count}\n0000000000 65535 f \n`)
+  for (let id = 1; id < count; id++) push(`${String(offsets[id]).padStart(10, "0")} 00000 n \n`)
+  push(`trailer\n<< /Size ${count} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`)
+  return new Blob(chunks as BlobPart[], { type: "application/pdf" })
+}
+
+export async function buildPdf(
+  sections: PdfSection[],
+  options: { layout: PdfLayout; paper: PaperSize; background: boolean; pattern: boolean },
+): Promise<Blob> {
+  const pages: RenderedPage[] = []
+  for (const { area, backgroundType, backgroundColor } of sections) {
+    const planned = planPdfPages(area, options.layout, options.paper)
+    // one page at a time keeps only a single print-size canvas alive
+    for (const page of planned) {
+      pages.push(await renderPage(page, area, { ...options, backgroundType, backgroundColor }))
+    }
+  }
+  return writePdf(pages)
+}
@@ -0,0 +1,96 @@
+import type { LineItem } from "./elements"
+import { smoothedStroke } from "./smoothing"
+
+// Pressure-sensitive pen strokes. A stroke may carry one pressure (0..1) per point; its width
+// at a point is then strokeWidth scaled by that pressure, with 0.5 drawing at exactly
+// strokeWidth. Strokes without pressures, and dashed ones, are drawn at a constant width.
+//
+// A variable-width stroke is painted as a filled outline: a disc at every point joined by
+// quads along each segment, all wound the same way so they merge under the nonzero rule.
+
+export const DEFAULT_PRESSURE = 0.5
+const MIN_FACTOR = 0.25 // width factor at zero pressure
+const MAX_FACTOR = 1.75 // ... and at full pressure
+
+// Mice and touch report no real pressure, so it is made up from speed: slow is heavy, fast is
+// light. Speeds are in CSS pixels per millisecond.
+const SIM_HEAVY = 0.7
+const SIM_LIGHT = 0.15
+const SIM_FALLOFF = 0.2 // pressure lost per px/ms
+const SIM_EASE = 0.35 // how far each sample moves toward its target, against jitter
+
+export type StrokeOutline = {
+  discs: { x: number; y: number; r: number }[]
+  quads: number[][] // [x,y] * 4, clockwise on screen
+}
+
+export function widthAt(strokeWidth: number, pressure: number) {
+  return strokeWidth * (MIN_FACTOR + (MAX_FACTOR - MIN_FACTOR) * pressure)
+}
+
+export function hasPressure(el: LineItem): el is LineItem & { pressures: number[] } {
+  return el.pressures != null && el.brushStyle !== "dashed"
+}
+
+// the widest the stroke gets, for hit testing and bounds
+export function maxPenWidth(el: LineItem) {
+  return hasPressure(el) ? widthAt(el.strokeWidth, Math.max(...el.pressures)) : el.strokeWidth
+}
+
+// pressure of a pointer sample: the stylus reading for pens, else simulated from `speed`
+// easing away from the previous sample's pressure
+export function samplePressure(e: { pointerType: string; pressure: number }, previous: number | null, speed: number) {
+  if (e.pointerType === "pen") return e.pressure > 0 ? e.pressure : DEFAULT_PRESSURE
+  const target = Math.min(SIM_HEAVY, Math.max(SIM_LIGHT, SIM_HEAVY - speed * SIM_FALLOFF))
+  if (previous == null) return DEFAULT_PRESSURE
+  return previous + (target - previous) * SIM_EASE
+}
+
+// the outline of the stroke as drawn, along its smoothed curve
+export function strokeOutline(el: LineItem & { pressures: number[] }): StrokeOutline {
+  const curve = smoothedStroke(el)
+  const pts = curve.points
+  const pressures = curve.pressures ?? el.pressures
+  const n = pts.length / 2
+  const radius = (i: number) => widthAt(el.strokeWidth, pressures[i] ?? DEFAULT_PRESSURE) / 2
+  const discs: StrokeOutline["discs"] = []
+  const quads: number[][] = []
+  // square brushes end flat, so they only get discs at the joins
+  const round = el.brushStyle !== "square"
+  for (let i = 0; i < n; i++) {
+    if (round || (i > 0 && i < n - 1) || n === 1) discs.push({ x: pts[i * 2], y: pts[i * 2 + 1], r: radius(i) })
+  }
+  for (let i = 0; i + 1 < n; i++) {
+    const [x1, y1, x2, y2] = pts.slice(i * 2, i * 2 + 4)
+    const len = Math.hypot(x2 - x1, y2 - y1)
+    if (len === 0) continue
+    // unit normal, to the right of the direction of travel on screen
+    const nx = -(y2 - y1) / len
+    const ny = (x2 - x1) / len
+    const r1 = radius(i)
+    const r2 = radius(i + 1)
+    quads.push([
+      x1 - nx * r1,
+      y1 - ny * r1,
+      x2 - nx * r2,
+      y2 - ny * r2,
+      x2 + nx * r2,
+      y2 + ny * r2,
+      x1 + nx * r1,
+      y1 + ny * r1,
+    ])
+  }
+  return { discs, quads }
+}
+
+// keeps the points (and their pressures) between `start` and `end`, as point indices; a range
+// covering the whole stroke gives back the stroke itself rather than copies of its arrays
+export function sliceStroke(
+  el: Pick<LineItem, "points" | "pressures">,
+  start: number,
+  end: number,
+): Pick<LineItem, "points" | "pressures"> {
+  if (start <= 0 && end * 2 >= el.points.length) return el
+  const points = el.points.slice(start * 2, end * 2)
+  return el.pressures ? { points, pressures: el.pressures.slice(start, end) } : { points }
+}
@@ -0,0 +1,158 @@
+import { distPointToSeg } from "./elements"
+
+// Shape recognition for pen strokes: decides whether a freehand stroke is a rough line, arrow,
+// rectangle, ellipse or triangle, and returns the clean geometry, in the same shape as the
+// canvas's drafts for the shape tools. Everything is judged relative to the stroke's own size,
+// so a shape is recognized the same at any zoom.
+
+export type RecognizedShape =
+  | { type: "line" | "arrow"; x1: number; y1: number; x2: number; y2: number }
+  | { type: "rect"; x: number; y: number; width: number; height: number }
+  | { type: "circle"; x: number; y: number; radiusX: number; radiusY: number }
+  | { type: "triangle"; x1: number; y1: number; x2: number; y2: number; x3: number; y3: number }
+
+const MIN_SIZE = 16 // screen px; smaller strokes are left alone
+const STRAIGHTNESS = 0.06 // a line strays at most this share of its length
+const CLOSE_GAP = 0.2 // of the stroke's size, between its ends for it to count as closed
+const FIT_TOLERANCE = 0.03 // mean distance from a closed outline, as a share of the stroke's size
+const CORNER_TOLERANCE = 0.1 // of the stroke's size, for finding an arrow's corners
+const HEAD_REACH = 0.5 // arrowhead barbs end within this share of the shaft from its tip
+const HEAD_ANGLE = (70 * Math.PI) / 180 // ... and point back along the shaft within this angle
+
+type Point = { x: number; y: number }
+
+function toPoints(flat: number[]) {
+  const pts: Point[] = []
+  for (let i = 0; i + 1 < flat.length; i += 2) pts.push({ x: flat[i], y: flat[i + 1] })
+  return pts
+}
+
+// Ramer–Douglas–Peucker on an open path: the indices of its corners
+function corners(pts: Point[], tolerance: number) {
+  const keep = new Set([0, pts.length - 1])
+  const stack: [number, number][] = [[0, pts.length - 1]]
+  while (stack.length > 0) {
+    const [first, last] = stack.pop()!
+    let farthest = -1
+    let farthestDist = tolerance
+    for (let i = first + 1; i < last; i++) {
+      const d = distPointToSeg(pts[i].x, pts[i].y, pts[first].x, pts[first].y, pts[last].x, pts[last].y)
+      if (d > farthestDist) {
+        farthest = i
+        farthestDist = d
+      }
+    }
+    if (farthest === -1) continue
+    keep.add(farthest)
+    stack.push([first, farthest], [farthest, last])
+  }
+  return [...keep].sort((a, b) => a - b).map((i) => pts[i])
+}
+
+// mean distance of the points from a closed polygon's outline
+function polygonError(pts: Point[], polygon: Point[]) {
+  let total = 0
+  for (const p of pts) {
+    let best = Number.POSITIVE_INFINITY
+    polygon.forEach((a, i) => {
+      const b = polygon[(i + 1) % polygon.length]
+      best = Math.min(best, distPointToSeg(p.x, p.y, a.x, a.y, b.x, b.y))
+    })
+    total += best
+  }
+  return total / pts.length
+}
+
+function angleBetween(ax: number, ay: number, bx: number, by: number) {
+  const cos = (ax * bx + ay * by) / (Math.hypot(ax, ay) * Math.hypot(bx, by) || 1)
+  return Math.acos(Math.max(-1, Math.min(1, cos)))
+}
+
+// An open stroke that runs out along a shaft and then doubles back near its tip for one or
+// both barbs of a head.
+function recognizeArrow(pts: Point[], size: number): RecognizedShape | null {
+  const path = corners(pts, size * CORNER_TOLERANCE)
+  if (path.length < 3 || path.length > 5) return null
+  const [start, tip, ...head] = path
+  const shaftX = start.x - tip.x
+  const shaftY = start.y - tip.y
+  const shaft = Math.hypot(shaftX, shaftY)
+  if (shaft === 0) return null
+  const reach = head.every((p) => Math.hypot(p.x - tip.x, p.y - tip.y) <= shaft * HEAD_REACH)
+  const barbs = head.filter((p) => angleBetween(p.x - tip.x, p.y - tip.y, shaftX, shaftY) <= HEAD_ANGLE)
+  if (!reach || barbs.length === 0) return null
+  return { type: "arrow", x1: start.x, y1: start.y, x2: tip.x, y2: tip.y }
+}
+
+function recognizeClosed(pts: Point[], box: { x0: number; y0: number; x1: number; y1: number }, size: number) {
+  const candidates: { shape: RecognizedShape; error: number }[] = []
+
+  // the ellipse filling the box; each point's error is measured along the ray from its centre
+  const cx = (box.x0 + box.x1) / 2
+  const cy = (box.y0 + box.y1) / 2
+  const radiusX = (box.x1 - box.x0) / 2
+  const radiusY = (box.y1 - box.y0) / 2
+  const ellipseError = (p: Point) => {
+    const d = Math.hypot(p.x - cx, p.y - cy)
+    const k = Math.hypot((p.x - cx) / radiusX, (p.y - cy) / radiusY)
+    return k === 0 ? Math.min(radiusX, radiusY) : Math.abs(d - d / k)
+  }
+  if (radiusX > 0 && radiusY > 0) {
+    candidates.push({
+      shape: { type: "circle", x: cx, y: cy, radiusX, radiusY },
+      error: pts.reduce((sum, p) => sum + ellipseError(p), 0) / pts.length,
+    })
+  }
+
+  const rect = [
+    { x: box.x0, y: box.y0 },
+    { x: box.x1, y: box.y0 },
+    { x: box.x1, y: box.y1 },
+    { x: box.x0, y: box.y1 },
+  ]
+  candidates.push({
+    shape: { type: "rect", x: box.x0, y: box.y0, width: box.x1 - box.x0, height: box.y1 - box.y0 },
+    error: polygonError(pts, rect),
+  })
+
+  // the two points farthest apart, then the point farthest from the line through them
+  let a = pts[0]
+  let b = pts[0]
+  for (const p of pts) {
+    for (const q of pts) {
+      if (Math.hypot(p.x - q.x, p.y - q.y) > Math.hypot(a.x - b.x, a.y - b.y)) [a, b] = [p, q]
+    }
+  }
+  let c = pts[0]
+  for (const p of pts) {
+    if (distPointToSeg(p.x, p.y, a.x, a.y, b.x, b.y) > distPointToSeg(c.x, c.y, a.x, a.y, b.x, b.y)) c = p
+  }
+  candidates.push({
+    shape: { type: "triangle", x1: a.x, y1: a.y, x2: b.x, y2: b.y, x3: c.x, y3: c.y },
+    error: polygonError(pts, [a, b, c]),
+  })
+
+  const best = candidates.reduce((x, y) => (y.error < x.error ? y : x))
+  return best.error <= size * FIT_TOLERANCE ? best.shape : null
+}
+
+// The clean shape a stroke was meant to be, or null if it doesn't look like one. `scale` is
+// the zoom it was drawn at, to ignore scribbles too small to mean anything.
+export function recognizeShape(flat: number[], scale: number): RecognizedShape | null {
+  const pts = toPoints(flat)
+  if (pts.length < 3) return null
+  const xs = pts.map((p) => p.x)
+  const ys = pts.map((p) => p.y)
+  const box = { x0: Math.min(...xs), y0: Math.min(...ys), x1: Math.max(...xs), y1: Math.max(...ys) }
+  const size = Math.hypot(box.x1 - box.x0, box.y1 - box.y0)
+  if (size * scale < MIN_SIZE) return null
+
+  const first = pts[0]
+  const last = pts[pts.length - 1]
+  if (Math.hypot(last.x - first.x, last.y - first.y) <= size * CLOSE_GAP) return recognizeClosed(pts, box, size)
+
+  const chord = Math.hypot(last.x - first.x, last.y - first.y)
+  const straight = pts.every((p) => distPointToSeg(p.x, p.y, first.x, first.y, last.x, last.y) <= chord * STRAIGHTNESS)
+  if (straight) return { type: "line", x1: first.x, y1: first.y, x2: last.x, y2: last.y }
+  return recognizeArrow(pts, size)
+}
@@ -0,0 +1,383 @@
+import type { BackgroundType, BrushStyle } from "./canvas"
+import {
+  bboxCenter,
+  getLocalBBox,
+  imageCrop,
+  rotationOf,
+  type ClosedShape,
+  type HighlighterItem,
+  type ImageItem,
+  type LineItem,
+  type TextItem,
+  type WhiteboardElement,
+} from "./elements"
+import { chiselOutline, HIGHLIGHTER_BLEND, HIGHLIGHTER_OPACITY } from "./highlighter"
+import { FRAME_COLOR, FRAME_STROKE_WIDTH, frameLabel } from "./frames"
+import { stackLayers, type Layer } from "./layers"
+import { connectorHead, connectorPath } from "./connectors"
+import { hasPressure, strokeOutline } from "./pressure"
+import { shapePath, tracePath } from "./shapes"
+import { smoothedStroke } from "./smoothing"
+import { stickyTextBox } from "./sticky"
+import { layoutText, LINE_HEIGHT, textFont } from "./text"
+
+// Drawing routines shared by the on-screen render loop and the exporters. Everything here
+// draws in world space; callers set up the world transform on the context beforehand.
+
+export const BACKGROUND_STEP = 24 // world units between lines/dots
+export const DASH_PATTERN = [12, 8]
+
+export type WorldRect = { x: number; y: number; width: number; height: number }
+
+function hexToRgb(hex: string) {
+  const m = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex.trim())
+  if (!m) return { r: 255, g: 255, b: 255 }
+  return { r: Number.parseInt(m[1], 16), g: Number.parseInt(m[2], 16), b: Number.parseInt(m[3], 16) }
+}
+function luminanceFromHex(hex: string) {
+  const { r, g, b } = hexToRgb(hex)
+  // simple relative luminance approximation
+  const [R, G, B] = [r, g, b].map((v) => v / 255)
+  return 0.2126 * R + 0.7152 * G + 0.0722 * B
+}
+export function patternColorFor(bg: string) {
+  const L = luminanceFromHex(bg)
+  return L > 0.5 ? "rgba(0,0,0,0.12)" : "rgba(255,255,255,0.14)"
+}
+
+export function lineCapFor(style: BrushStyle): CanvasLineCap {
+  return style === "square" ? "butt" : "round"
+}
+export function lineJoinFor(style: BrushStyle): CanvasLineJoin {
+  return style === "square" ? "miter" : "round"
+}
+
+// arrowhead triangle for an arrow pointing from (x1,y1) to (x2,y2)
+export function arrowHeadPoints(x1: number, y1: number, x2: number, y2: number, strokeWidth: number) {
+  const angle = Math.atan2(y2 - y1, x2 - x1)
+  const len = 10 + Math.max(0, strokeWidth - 2) // scale arrowhead a bit
+  return [
+    { x: x2, y: y2 },
+    { x: x2 - len * Math.cos(angle - Math.PI / 8), y: y2 - len * Math.sin(angle - Math.PI / 8) },
+    { x: x2 - len * Math.cos(angle + Math.PI / 8), y: y2 - len * Math.sin(angle + Math.PI / 8) },
+  ]
+}
+
+export function drawBackground(
+  ctx: CanvasRenderingContext2D,
+  background: BackgroundType,
+  backgroundColor: string,
+  view: WorldRect,
+) {
+  const { x: minX, y: minY, width: viewW, height: viewH } = view
+
+  // fill page color
+  ctx.fillStyle = backgroundColor
+  ctx.fillRect(minX, minY, viewW, viewH)
+
+  // draw pattern, clipped so exports don't bleed past their bounds
+  ctx.save()
+  ctx.beginPath()
+  ctx.rect(minX, minY, viewW, viewH)
+  ctx.clip()
+  const step = BACKGROUND_STEP
+  const pColor = patternColorFor(backgroundColor)
+  const startX = Math.floor(minX / step) * step
+  const startY = Math.floor(minY / step) * step
+  const endX = minX + viewW + step
+  const endY = minY + viewH + step
+
+  if (background === "dotted") {
+    ctx.fillStyle = pColor
+    const r = 1 // world radius; scales visually with zoom
+    for (let x = startX; x < endX; x += step) {
+      for (let y = startY; y < endY; y += step) {
+        ctx.beginPath()
+        ctx.arc(x, y, r, 0, Math.PI * 2)
+        ctx.fill()
+      }
+    }
+  } else if (background === "grid") {
+    ctx.strokeStyle = pColor
+    ctx.lineWidth = 1
+    // verticals
+    for (let x = startX; x < endX; x += step) {
+      ctx.beginPath()
+      ctx.moveTo(x, startY)
+      ctx.lineTo(x, endY)
+      ctx.stroke()
+    }
+    // horizontals
+    for (let y = startY; y < endY; y += step) {
+      ctx.beginPath()
+      ctx.moveTo(startX, y)
+      ctx.lineTo(endX, y)
+      ctx.stroke()
+    }
+  } else if (background === "ruled") {
+    ctx.strokeStyle = pColor
+    ctx.lineWidth = 1
+    for (let y = startY; y < endY; y += step) {
+      ctx.beginPath()
+      ctx.moveTo(startX, y)
+      ctx.lineTo(endX, y)
+      ctx.stroke()
+    }
+  } else if (background === "matrix") {
+    // simple diagonal crosshatch (approximate 60deg/-60deg)
+    ctx.strokeStyle = pColor
+    ctx.lineWidth = 1
+    // slope +1
+    for (let y = startY - (endX - startX); y < endY + (endX - startX); y += step) {
+      ctx.beginPath()
+      ctx.moveTo(startX, y)
+      ctx.lineTo(endX, y + (endX - startX))
+      ctx.stroke()
+    }
+    // slope -1
+    for (let y = startY + (endX - startX); y > startY - (endX - startX); y -= step) {
+      ctx.beginPath()
+      ctx.moveTo(startX, y)
+      ctx.lineTo(endX, y - (endX - startX))
+      ctx.stroke()
+    }
+  }
+  ctx.restore()
+}
+
+// Decoded images, keyed by src. Drawing never waits on a download: an image that is still
+// loading is drawn as a placeholder, and onImageLoad listeners hear when it can be repainted.
+const imageCache = new Map<string, HTMLImageElement>()
+const imageListeners = new Set<() => void>()
+
+function imageFor(src: string) {
+  let img = imageCache.get(src)
+  if (!img) {
+    img = new Image()
+    img.onload = () => imageListeners.forEach((listener) => listener())
+    img.src = src
+    imageCache.set(src, img)
+  }
+  return img.complete && img.naturalWidth > 0 ? img : null
+}
+
+export function onImageLoad(listener: () => void) {
+  imageListeners.add(listener)
+  return () => {
+    imageListeners.delete(listener)
+  }
+}
+
+// resolves once every image among the elements has loaded (or failed), for one-off renders
+export function loadImages(elements: WhiteboardElement[]) {
+  const pending = elements.flatMap((el) => {
+    if (el.type !== "image" || imageFor(el.src)) return []
+    const img = imageCache.get(el.src)!
+    return [img.decode().catch(() => undefined)]
+  })
+  return Promise.all(pending).then(() => undefined)
+}
+
+function drawImageElement(ctx: CanvasRenderingContext2D, el: ImageItem) {
+  const img = imageFor(el.src)
+  if (!img) {
+    ctx.fillStyle = "rgba(128,128,128,0.15)"
+    ctx.fillRect(el.x, el.y, el.width, el.height)
+    return
+  }
+  const crop = imageCrop(el)
+  ctx.drawImage(img, crop.x, crop.y, crop.width, crop.height, el.x, el.y, el.width, el.height)
+}
+
+// x where a line starts for the canvas and SVG text-anchor of the given alignment
+export function textAnchorX(el: TextItem, width: number) {
+  return el.align === "left" ? el.x : el.align === "center" ? el.x + width / 2 : el.x + width
+}
+
+function drawTextElement(ctx: CanvasRenderingContext2D, el: TextItem) {
+  const { lines, width } = layoutText(el)
+  const lineHeight = el.fontSize * LINE_HEIGHT
+  ctx.font = textFont(el)
+  ctx.fillStyle = el.color
+  ctx.textAlign = el.align
+  ctx.textBaseline = "middle"
+  const x = textAnchorX(el, width)
+  lines.forEach((line, i) => ctx.fillText(line, x, el.y + (i + 0.5) * lineHeight))
+}
+
+function drawPressureStroke(ctx: CanvasRenderingContext2D, el: LineItem & { pressures: number[] }) {
+  const { discs, quads } = strokeOutline(el)
+  ctx.beginPath()
+  for (const d of discs) {
+    ctx.moveTo(d.x + d.r, d.y)
+    ctx.arc(d.x, d.y, d.r, 0, Math.PI * 2)
+  }
+  for (const q of quads) {
+    ctx.moveTo(q[0], q[1])
+    ctx.lineTo(q[2], q[3])
+    ctx.lineTo(q[4], q[5])
+    ctx.lineTo(q[6], q[7])
+    ctx.closePath()
+  }
+  ctx.fillStyle = el.color
+  ctx.fill("nonzero")
+}
+
+function drawHighlighter(ctx: CanvasRenderingContext2D, el: HighlighterItem) {
+  ctx.beginPath()
+  for (const polygon of chiselOutline(el)) {
+    polygon.forEach((p, i) => (i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y)))
+    ctx.closePath()
+  }
+  ctx.globalAlpha *= HIGHLIGHTER_OPACITY
+  ctx.globalCompositeOperation = HIGHLIGHTER_BLEND
+  ctx.fillStyle = el.color
+  ctx.fill("nonzero")
+}
+
+// fills the current path with the shape's fill, if it has one, under the outline still to come
+function fillShape(ctx: CanvasRenderingContext2D, el: ClosedShape) {
+  if (el.fill == null) return
+  ctx.save()
+  ctx.globalAlpha *= el.fillOpacity ?? 1
+  ctx.fillStyle = el.fill
+  ctx.fill()
+  ctx.restore()
+}
+
+export function drawElement(ctx: CanvasRenderingContext2D, el: WhiteboardElement) {
+  ctx.save()
+  const angle = rotationOf(el)
+  if (angle) {
+    // turned about the centre of its box, then drawn as if it weren't
+    const c = bboxCenter(getLocalBBox(el))
+    ctx.translate(c.x, c.y)
+    ctx.rotate(angle)
+    ctx.translate(-c.x, -c.y)
+  }
+  if (el.type === "image") {
+    drawImageElement(ctx, el)
+    ctx.restore()
+    return
+  }
+  if (el.type === "text") {
+    drawTextElement(ctx, el)
+    ctx.restore()
+    return
+  }
+  if (el.type === "sticky") {
+    ctx.save()
+    ctx.shadowColor = "rgba(0,0,0,0.18)"
+    ctx.shadowBlur = 6
+    ctx.shadowOffsetY = 2
+    ctx.fillStyle = el.color
+    ctx.fillRect(el.x, el.y, el.width, el.height)
+    ctx.restore()
+    if (el.text) drawTextElement(ctx, stickyTextBox(el))
+    ctx.restore()
+    return
+  }
+  if (el.type === "frame") {
+    ctx.strokeStyle = FRAME_COLOR
+    ctx.lineWidth = FRAME_STROKE_WIDTH
+    ctx.strokeRect(el.x, el.y, el.width, el.height)
+    drawTextElement(ctx, frameLabel(el))
+    ctx.restore()
+    return
+  }
+  if (el.type === "highlighter") {
+    drawHighlighter(ctx, el)
+    ctx.restore()
+    return
+  }
+  if (el.type === "pen" && hasPressure(el)) {
+    drawPressureStroke(ctx, el)
+    ctx.restore()
+    return
+  }
+  if (el.type === "pen") {
+    ctx.strokeStyle = el.color
+    ctx.lineWidth = el.strokeWidth
+    ctx.setLineDash(el.brushStyle === "dashed" ? DASH_PATTERN : [])
+    ctx.lineCap = lineCapFor(el.brushStyle)
+    ctx.lineJoin = lineJoinFor(el.brushStyle)
+    const pts = smoothedStroke(el).points
+    if (pts.length >= 2) {
+      ctx.beginPath()
+      ctx.moveTo(pts[0], pts[1])
+      for (let i = 2; i < pts.length; i += 2) {
+        ctx.lineTo(pts[i], pts[i + 1])
+      }
+      ctx.stroke()
+    }
+    ctx.restore()
+    return
+  }
+
+  ctx.strokeStyle = el.stroke
+  ctx.lineWidth = el.strokeWidth
+  ctx.setLineDash(el.dashed ? DASH_PATTERN : [])
+  ctx.lineCap = "round"
+  ctx.lineJoin = "round"
+  if (el.type === "shape" || (el.type === "rect" && el.cornerRadius)) {
+    const { outline, details } = shapePath(el)
+    ctx.beginPath()
+    tracePath(ctx, outline)
+    fillShape(ctx, el)
+    tracePath(ctx, details)
+    ctx.stroke()
+  } else if (el.type === "rect") {
+    ctx.beginPath()
+    ctx.rect(el.x, el.y, el.width, el.height)
+    fillShape(ctx, el)
+    ctx.stroke()
+  } else if (el.type === "circle") {
+    ctx.beginPath()
+    ctx.ellipse(el.x, el.y, el.radiusX, el.radiusY, 0, 0, Math.PI * 2)
+    fillShape(ctx, el)
+    ctx.stroke()
+  } else if (el.type === "line") {
+    ctx.beginPath()
+    tracePath(ctx, connectorPath(el))
+    ctx.stroke()
+  } else if (el.type === "arrow") {
+    // main line
+    ctx.beginPath()
+    tracePath(ctx, connectorPath(el))
+    ctx.stroke()
+    // arrowhead, along the end of the route
+    const head = connectorHead(el)
+    const [tip, left, right] = arrowHeadPoints(head.x1, head.y1, head.x2, head.y2, el.strokeWidth)
+    ctx.beginPath()
+    ctx.moveTo(tip.x, tip.y)
+    ctx.lineTo(left.x, left.y)
+    ctx.lineTo(right.x, right.y)
+    ctx.closePath()
+    ctx.fillStyle = el.stroke
+    ctx.fill()
+  } else if (el.type === "triangle") {
+    ctx.beginPath()
+    ctx.moveTo(el.x1, el.y1)
+    ctx.lineTo(el.x2, el.y2)
+    ctx.lineTo(el.x3, el.y3)
+    ctx.closePath()
+    fillShape(ctx, el)
+    ctx.stroke()
+  }
+  ctx.restore()
+}
+
+// the scene, bottom to top
+export function drawScene(ctx: CanvasRenderingContext2D, elements: WhiteboardElement[]) {
+  for (const el of elements) drawElement(ctx, el)
+}
+
+// visible layers bottom to top; a layer's opacity applies to each of its elements
+export function drawLayers(ctx: CanvasRenderingContext2D, elements: WhiteboardElement[], layers: Layer[]) {
+  for (const { layer, elements: onLayer } of stackLayers(elements, layers)) {
+    ctx.save()
+    ctx.globalAlpha *= layer.opacity
+    drawScene(ctx, onLayer)
+    ctx.restore()
+  }
+}
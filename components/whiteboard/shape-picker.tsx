@@ -0,0 +1,100 @@
+"use client"
+
+import type { LucideIcon } from "lucide-react"
+import { Cloud, Cylinder, Diamond, Pentagon, RectangleHorizontal, Squircle, Star } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { Slider } from "@/components/ui/slider"
+import { cn } from "@/lib/utils"
+import { MAX_CORNER_RADIUS, MAX_SIDES, MIN_SIDES, type LibraryShape, type ShapeStyle } from "./shapes"
+
+const SHAPES: { shape: LibraryShape; label: string; Icon: LucideIcon; className?: string }[] = [
+  { shape: "rounded-rect", label: "Rounded rectangle", Icon: Squircle },
+  { shape: "diamond", label: "Diamond", Icon: Diamond },
+  { shape: "polygon", label: "Polygon", Icon: Pentagon },
+  { shape: "star", label: "Star", Icon: Star },
+  { shape: "cylinder", label: "Cylinder", Icon: Cylinder },
+  { shape: "cloud", label: "Cloud", Icon: Cloud },
+  // there is no parallelogram icon, so a rectangle is slanted into one
+  { shape: "parallelogram", label: "Parallelogram", Icon: RectangleHorizontal, className: "-skew-x-12" },
+]
+
+// The shape tool's library: picking a shape selects the tool, and the shape's setting (corner
+// radius or number of sides) is shown under the list.
+export function ShapePicker({
+  active,
+  style,
+  onPick,
+  onStyleChange,
+  onStyleCommit,
+}: {
+  active: boolean // the shape tool is selected
+  style: ShapeStyle
+  onPick: (shape: LibraryShape) => void
+  onStyleChange: (patch: Partial<ShapeStyle>) => void
+  onStyleCommit?: () => void
+}) {
+  const current = SHAPES.find((s) => s.shape === style.shape) ?? SHAPES[0]
+  const counted = style.shape === "polygon" || style.shape === "star"
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          size="icon"
+          variant={active ? "secondary" : "ghost"}
+          aria-label="Shapes"
+          title={`Shapes: ${current.label}`}
+        >
+          <current.Icon className={cn("size-4", current.className)} />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-56 space-y-3">
+        <div className="flex flex-wrap items-center gap-1">
+          {SHAPES.map(({ shape, label, Icon, className }) => (
+            <Button
+              key={shape}
+              size="icon"
+              variant={active && style.shape === shape ? "default" : "ghost"}
+              onClick={() => onPick(shape)}
+              aria-label={label}
+              title={label}
+            >
+              <Icon className={cn("size-4", className)} />
+            </Button>
+          ))}
+        </div>
+        {style.shape === "rounded-rect" && (
+          <div className="flex items-center gap-2">
+            <span className="text-xs text-muted-foreground">Corners</span>
+            <Slider
+              value={[style.cornerRadius]}
+              min={0}
+              max={MAX_CORNER_RADIUS}
+              step={2}
+              onValueChange={(v) => onStyleChange({ cornerRadius: v[0] ?? 0 })}
+              onValueCommit={() => onStyleCommit?.()}
+              onPointerUp={() => onStyleCommit?.()}
+            />
+            <span className="w-9 text-right text-xs tabular-nums">{style.cornerRadius}</span>
+          </div>
+        )}
+        {counted && (
+          <div className="flex items-center gap-2">
+            <span className="text-xs text-muted-foreground">{style.shape === "star" ? "Points" : "Sides"}</span>
+            <Slider
+              value={[style.sides]}
+              min={MIN_SIDES}
+              max={MAX_SIDES}
+              step={1}
+              onValueChange={(v) => onStyleChange({ sides: v[0] ?? MIN_SIDES })}
+              onValueCommit={() => onStyleCommit?.()}
+              onPointerUp={() => onStyleCommit?.()}
+            />
+            <span className="w-9 text-right text-xs tabular-nums">{style.sides}</span>
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  )
+}
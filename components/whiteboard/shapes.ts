@@ -0,0 +1,220 @@
+import type { BBox, RectItem, ShapeItem, ShapeKind } from "./elements"
+
+// The shape library: diamonds, regular polygons, stars, cylinders, clouds and parallelograms,
+// each drawn to fill its box, plus the rounded corners rectangles may have. Every shape is
+// described once as path commands, which the canvas traces, the SVG export writes out and
+// hit-testing flattens into polylines. Curves are cubic Béziers throughout.
+
+export type PathCommand =
+  | { op: "M" | "L"; x: number; y: number }
+  | { op: "C"; x1: number; y1: number; x2: number; y2: number; x: number; y: number }
+  | { op: "Z" }
+
+// `outline` is closed and takes the fill; `details` are lines drawn over it, such as the front
+// rim of a cylinder's lid
+export type ShapePath = { outline: PathCommand[]; details: PathCommand[] }
+
+// what the shape tool draws, and its settings
+export type LibraryShape = "rounded-rect" | ShapeKind
+export type ShapeStyle = { shape: LibraryShape; cornerRadius: number; sides: number }
+
+export const DEFAULT_SHAPE_STYLE: ShapeStyle = { shape: "rounded-rect", cornerRadius: 16, sides: 5 }
+export const MIN_SIDES = 3
+export const MAX_SIDES = 12
+export const MAX_CORNER_RADIUS = 64
+
+const KAPPA = 0.5523 // control arm of a cubic quarter circle, per unit radius
+const STAR_INNER = 0.45 // inner radius of a star, of its outer one
+const PARALLELOGRAM_SLANT = 0.25 // of the width
+const CYLINDER_LID = 0.15 // the lid's half-height, of the height (at most a quarter of the width)
+const CLOUD_BUMPS = 9
+const CURVE_STEPS = 12 // segments a curve is flattened into
+
+// Quarter turns of an ellipse from angle `from` to `to` (multiples of π/2, clockwise on
+// screen when `to` is larger), as cubic curves; the pen is assumed to be at `from` already.
+function ellipseArc(cx: number, cy: number, rx: number, ry: number, from: number, to: number) {
+  const step = to > from ? Math.PI / 2 : -Math.PI / 2
+  const dir = Math.sign(step)
+  const at = (a: number) => ({ x: cx + rx * Math.cos(a), y: cy + ry * Math.sin(a) })
+  const tangent = (a: number) => ({ x: -rx * Math.sin(a) * dir * KAPPA, y: ry * Math.cos(a) * dir * KAPPA })
+  const arcs: PathCommand[] = []
+  for (let a = from; Math.abs(to - a) > 1e-9; a += step) {
+    const p0 = at(a)
+    const p3 = at(a + step)
+    const t0 = tangent(a)
+    const t3 = tangent(a + step)
+    arcs.push({ op: "C", x1: p0.x + t0.x, y1: p0.y + t0.y, x2: p3.x - t3.x, y2: p3.y - t3.y, x: p3.x, y: p3.y })
+  }
+  return arcs
+}
+
+function polygon(points: { x: number; y: number }[]): PathCommand[] {
+  return [...points.map((p, i) => ({ op: i === 0 ? "M" : "L", x: p.x, y: p.y }) as PathCommand), { op: "Z" }]
+}
+
+// points around the unit circle, starting straight up
+function around(count: number, radius: (i: number) => number) {
+  return Array.from({ length: count }, (_, i) => {
+    const a = -Math.PI / 2 + (i / count) * Math.PI * 2
+    return { x: radius(i) * Math.cos(a), y: radius(i) * Math.sin(a) }
+  })
+}
+
+function mapPath(path: PathCommand[], f: (x: number, y: number) => { x: number; y: number }): PathCommand[] {
+  return path.map((c) => {
+    if (c.op === "Z") return c
+    const p = f(c.x, c.y)
+    if (c.op !== "C") return { ...c, ...p }
+    const c1 = f(c.x1, c.y1)
+    const c2 = f(c.x2, c.y2)
+    return { op: "C", x1: c1.x, y1: c1.y, x2: c2.x, y2: c2.y, x: p.x, y: p.y }
+  })
+}
+
+// Stretches a path drawn at any size so that it just fills the box.
+function fitToBox(path: PathCommand[], box: BBox) {
+  const pts = flattenPath(path).flat()
+  const xs = pts.filter((_, i) => i % 2 === 0)
+  const ys = pts.filter((_, i) => i % 2 === 1)
+  const x0 = Math.min(...xs)
+  const y0 = Math.min(...ys)
+  const kx = (box.x1 - box.x0) / (Math.max(...xs) - x0 || 1)
+  const ky = (box.y1 - box.y0) / (Math.max(...ys) - y0 || 1)
+  return mapPath(path, (x, y) => ({ x: box.x0 + (x - x0) * kx, y: box.y0 + (y - y0) * ky }))
+}
+
+// A ring of bumps round an ellipse, each bulging out from the centre.
+function cloud(): PathCommand[] {
+  const rim = around(CLOUD_BUMPS, () => 1).map((p) => ({ x: p.x * 1.3, y: p.y }))
+  const path: PathCommand[] = [{ op: "M", x: rim[0].x, y: rim[0].y }]
+  rim.forEach((p, i) => {
+    const q = rim[(i + 1) % rim.length]
+    const bulge = Math.hypot(q.x - p.x, q.y - p.y) * 0.6
+    const out = (v: { x: number; y: number }) => {
+      const k = 1 + bulge / Math.hypot(v.x, v.y)
+      return { x: v.x * k, y: v.y * k }
+    }
+    const c1 = out(p)
+    const c2 = out(q)
+    path.push({ op: "C", x1: c1.x, y1: c1.y, x2: c2.x, y2: c2.y, x: q.x, y: q.y })
+  })
+  path.push({ op: "Z" })
+  return path
+}
+
+export function roundedRectPath(box: BBox, radius: number): PathCommand[] {
+  const { x0, y0, x1, y1 } = box
+  const r = Math.max(0, Math.min(radius, (x1 - x0) / 2, (y1 - y0) / 2))
+  if (r === 0) return polygon([{ x: x0, y: y0 }, { x: x1, y: y0 }, { x: x1, y: y1 }, { x: x0, y: y1 }])
+  const q = Math.PI / 2
+  return [
+    { op: "M", x: x0 + r, y: y0 },
+    { op: "L", x: x1 - r, y: y0 },
+    ...ellipseArc(x1 - r, y0 + r, r, r, -q, 0),
+    { op: "L", x: x1, y: y1 - r },
+    ...ellipseArc(x1 - r, y1 - r, r, r, 0, q),
+    { op: "L", x: x0 + r, y: y1 },
+    ...ellipseArc(x0 + r, y1 - r, r, r, q, 2 * q),
+    { op: "L", x: x0, y: y0 + r },
+    ...ellipseArc(x0 + r, y0 + r, r, r, 2 * q, 3 * q),
+    { op: "Z" },
+  ]
+}
+
+function buildShapePath(el: ShapeItem): ShapePath {
+  const box = { x0: el.x, y0: el.y, x1: el.x + el.width, y1: el.y + el.height }
+  const { x0, y0, x1, y1 } = box
+  const cx = (x0 + x1) / 2
+  const cy = (y0 + y1) / 2
+  const sides = Math.round(Math.min(MAX_SIDES, Math.max(MIN_SIDES, el.sides ?? DEFAULT_SHAPE_STYLE.sides)))
+  switch (el.shape) {
+    case "diamond":
+      return { outline: polygon([{ x: cx, y: y0 }, { x: x1, y: cy }, { x: cx, y: y1 }, { x: x0, y: cy }]), details: [] }
+    case "polygon":
+      return { outline: fitToBox(polygon(around(sides, () => 1)), box), details: [] }
+    case "star":
+      return { outline: fitToBox(polygon(around(sides * 2, (i) => (i % 2 ? STAR_INNER : 1))), box), details: [] }
+    case "parallelogram": {
+      const slant = (x1 - x0) * PARALLELOGRAM_SLANT
+      const corners = [{ x: x0 + slant, y: y0 }, { x: x1, y: y0 }, { x: x1 - slant, y: y1 }, { x: x0, y: y1 }]
+      return { outline: polygon(corners), details: [] }
+    }
+    case "cylinder": {
+      const rx = (x1 - x0) / 2
+      const ry = Math.min((y1 - y0) * CYLINDER_LID, rx / 2)
+      const q = Math.PI / 2
+      return {
+        // the back of the lid, down the right side, round the front of the base and back up
+        outline: [
+          { op: "M", x: x0, y: y0 + ry },
+          ...ellipseArc(cx, y0 + ry, rx, ry, 2 * q, 4 * q),
+          { op: "L", x: x1, y: y1 - ry },
+          ...ellipseArc(cx, y1 - ry, rx, ry, 0, 2 * q),
+          { op: "Z" },
+        ],
+        details: [{ op: "M", x: x0, y: y0 + ry }, ...ellipseArc(cx, y0 + ry, rx, ry, 2 * q, 0)],
+      }
+    }
+    case "cloud":
+      return { outline: fitToBox(cloud(), box), details: [] }
+  }
+}
+
+const paths = new WeakMap<ShapeItem | RectItem, ShapePath>()
+
+// The shape's outline and details, unturned. Elements are immutable, so the result is kept for
+// as long as the element is.
+export function shapePath(el: ShapeItem | RectItem): ShapePath {
+  const known = paths.get(el)
+  if (known) return known
+  const path =
+    el.type === "rect"
+      ? { outline: roundedRectPath(rectBox(el), el.cornerRadius ?? 0), details: [] }
+      : buildShapePath(el)
+  paths.set(el, path)
+  return path
+}
+
+function rectBox(el: RectItem): BBox {
+  return {
+    x0: Math.min(el.x, el.x + el.width),
+    y0: Math.min(el.y, el.y + el.height),
+    x1: Math.max(el.x, el.x + el.width),
+    y1: Math.max(el.y, el.y + el.height),
+  }
+}
+
+// each subpath as a polyline [x,y,x,y,...]; closed ones end where they began
+export function flattenPath(path: PathCommand[]): number[][] {
+  const lines: number[][] = []
+  let line: number[] = []
+  for (const c of path) {
+    if (c.op === "M") {
+      if (line.length > 2) lines.push(line)
+      line = [c.x, c.y]
+    } else if (c.op === "L") {
+      line.push(c.x, c.y)
+    } else if (c.op === "C") {
+      const [x0, y0] = line.slice(-2)
+      for (let s = 1; s <= CURVE_STEPS; s++) {
+        const t = s / CURVE_STEPS
+        const u = 1 - t
+        const [w0, w1, w2, w3] = [u * u * u, 3 * u * u * t, 3 * u * t * t, t * t * t]
+        line.push(w0 * x0 + w1 * c.x1 + w2 * c.x2 + w3 * c.x, w0 * y0 + w1 * c.y1 + w2 * c.y2 + w3 * c.y)
+      }
+    } else {
+      line.push(line[0], line[1])
+    }
+  }
+  if (line.length > 2) lines.push(line)
+  return lines
+}
+
+export function tracePath(ctx: CanvasRenderingContext2D, path: PathCommand[]) {
+  for (const c of path) {
+    if (c.op === "M") ctx.moveTo(c.x, c.y)
+    else if (c.op === "L") ctx.lineTo(c.x, c.y)
+    else if (c.op === "C") ctx.bezierCurveTo(c.x1, c.y1, c.x2, c.y2, c.x, c.y)
+    else ctx.closePath()
+  }
+}
@@ -0,0 +1,109 @@
+import type { LineItem } from "./elements"
+
+// Pen strokes are stored as the pointer samples that survive simplification, and drawn as a
+// curve through them. A stroke's `smoothing` (0..1) sets how far the curve bends: 0 joins the
+// points with straight segments, 1 is a full Catmull-Rom spline.
+
+export const DEFAULT_SMOOTHING = 0.5
+export const SIMPLIFY_TOLERANCE = 0.35 // screen px a simplified stroke may stray from the samples
+const CURVE_STEP = 3 // world units between the points a curve is drawn through
+const MAX_STEPS = 16 // per segment
+
+type StrokePoints = Pick<LineItem, "points" | "pressures">
+
+const curves = new WeakMap<LineItem, StrokePoints>()
+
+// The stroke's points (and pressures) as drawn: sampled along the curve through them.
+// Strokes are immutable, so the result is kept for as long as the stroke is.
+export function smoothedStroke(el: LineItem): StrokePoints {
+  const smoothing = el.smoothing ?? 0
+  const n = el.points.length / 2
+  if (smoothing <= 0 || n < 3) return el
+  const known = curves.get(el)
+  if (known) return known
+
+  const p = el.points
+  const pr = el.pressures
+  const at = (i: number) => Math.min(n - 1, Math.max(0, i)) * 2
+  const k = smoothing / 6
+  const points: number[] = [p[0], p[1]]
+  const pressures: number[] | undefined = pr && [pr[0]]
+  for (let i = 0; i + 1 < n; i++) {
+    const [a, b, c, d] = [at(i - 1), at(i), at(i + 1), at(i + 2)]
+    // Catmull-Rom segment from b to c as a cubic Bézier, its tangents scaled by the smoothing
+    const c1x = p[b] + (p[c] - p[a]) * k
+    const c1y = p[b + 1] + (p[c + 1] - p[a + 1]) * k
+    const c2x = p[c] - (p[d] - p[b]) * k
+    const c2y = p[c + 1] - (p[d + 1] - p[b + 1]) * k
+    const length = Math.hypot(p[c] - p[b], p[c + 1] - p[b + 1])
+    const steps = Math.min(MAX_STEPS, Math.max(1, Math.ceil(length / CURVE_STEP)))
+    for (let s = 1; s <= steps; s++) {
+      const t = s / steps
+      const u = 1 - t
+      const w0 = u * u * u
+      const w1 = 3 * u * u * t
+      const w2 = 3 * u * t * t
+      const w3 = t * t * t
+      points.push(
+        w0 * p[b] + w1 * c1x + w2 * c2x + w3 * p[c],
+        w0 * p[b + 1] + w1 * c1y + w2 * c2y + w3 * p[c + 1],
+      )
+      pressures?.push(pr![i] + (pr![i + 1] - pr![i]) * t)
+    }
+  }
+  const curve = pressures ? { points, pressures } : { points }
+  curves.set(el, curve)
+  return curve
+}
+
+const round = (v: number, places: number) => Math.round(v * 10 ** places) / 10 ** places
+
+// Ramer–Douglas–Peucker: keeps the fewest points that stay within `tolerance` (world units) of
+// every sample. Pressure counts as a third dimension, scaled by the stroke width, so swells and
+// taper survive. Coordinates are rounded for compact files.
+export function simplifyStroke(stroke: StrokePoints, strokeWidth: number, tolerance: number): StrokePoints {
+  const { points, pressures } = stroke
+  const n = points.length / 2
+  const keep = new Uint8Array(n)
+  keep[0] = 1
+  keep[n - 1] = 1
+  const z = (i: number) => (pressures ? pressures[i] * strokeWidth : 0)
+
+  const stack: [number, number][] = n > 2 ? [[0, n - 1]] : []
+  while (stack.length > 0) {
+    const [first, last] = stack.pop()!
+    const ax = points[first * 2]
+    const ay = points[first * 2 + 1]
+    const az = z(first)
+    const dx = points[last * 2] - ax
+    const dy = points[last * 2 + 1] - ay
+    const dz = z(last) - az
+    const lengthSq = dx * dx + dy * dy + dz * dz
+    let farthest = -1
+    let farthestDist = tolerance
+    for (let i = first + 1; i < last; i++) {
+      const vx = points[i * 2] - ax
+      const vy = points[i * 2 + 1] - ay
+      const vz = z(i) - az
+      // distance from the chord, treated as a segment
+      const t = lengthSq === 0 ? 0 : Math.min(1, Math.max(0, (vx * dx + vy * dy + vz * dz) / lengthSq))
+      const dist = Math.hypot(vx - dx * t, vy - dy * t, vz - dz * t)
+      if (dist > farthestDist) {
+        farthest = i
+        farthestDist = dist
+      }
+    }
+    if (farthest === -1) continue
+    keep[farthest] = 1
+    stack.push([first, farthest], [farthest, last])
+  }
+
+  const kept: number[] = []
+  const keptPressures: number[] = []
+  for (let i = 0; i < n; i++) {
+    if (!keep[i]) continue
+    kept.push(round(points[i * 2], 2), round(points[i * 2 + 1], 2))
+    if (pressures) keptPressures.push(round(pressures[i], 3))
+  }
+  return pressures ? { points: kept, pressures: keptPressures } : { points: kept }
+}
@@ -0,0 +1,64 @@
+import type { StickyItem, TextItem } from "./elements"
+import { layoutText, onFontLoad } from "./text"
+
+// Sticky notes are colored squares whose text is centred and set as large as still fits,
+// between STICKY_MIN_FONT and STICKY_MAX_FONT.
+
+export const STICKY_COLORS = ["#fef08a", "#fbcfe8", "#bae6fd", "#bbf7d0", "#fed7aa", "#ddd6fe"]
+export const STICKY_SIZE = 200 // world units, new notes are square
+export const STICKY_GAP = 24 // between a note and the next one spawned beside it
+const STICKY_PADDING = 16
+const STICKY_MAX_FONT = 32
+const STICKY_MIN_FONT = 8
+const STICKY_TEXT_COLOR = "#1f2937"
+
+const fits = new Map<string, number>()
+const MAX_FITS = 500
+
+// sizes fitted with the fallback font no longer hold once the web font arrives
+onFontLoad(() => fits.clear())
+
+function fittedFontSize(text: string, width: number, height: number) {
+  const key = `${width}|${height}|${text}`
+  const known = fits.get(key)
+  if (known) return known
+  // binary search for the largest whole size whose wrapped text is no taller than the note
+  let lo = STICKY_MIN_FONT
+  let hi = STICKY_MAX_FONT
+  while (lo < hi) {
+    const mid = Math.ceil((lo + hi) / 2)
+    if (layoutText({ text, fontFamily: "sans", fontSize: mid, width }).height <= height) lo = mid
+    else hi = mid - 1
+  }
+  if (fits.size >= MAX_FITS) fits.clear()
+  fits.set(key, lo)
+  return lo
+}
+
+// the note's text as a text element, placed and sized the way it is drawn
+export function stickyTextBox(el: StickyItem): TextItem {
+  const width = Math.max(1, el.width - STICKY_PADDING * 2)
+  const height = Math.max(1, el.height - STICKY_PADDING * 2)
+  const fontSize = fittedFontSize(el.text, width, height)
+  const box = { text: el.text, fontFamily: "sans" as const, fontSize, width }
+  return {
+    id: el.id,
+    type: "text",
+    x: el.x + STICKY_PADDING,
+    y: el.y + (el.height - layoutText(box).height) / 2,
+    ...box,
+    color: STICKY_TEXT_COLOR,
+    align: "center",
+  }
+}
+
+// an empty note of the same size and color beside `from`
+export function nextSticky(from: StickyItem, direction: "right" | "below", id: string): StickyItem {
+  return {
+    ...from,
+    id,
+    text: "",
+    x: direction === "right" ? from.x + from.width + STICKY_GAP : from.x,
+    y: direction === "below" ? from.y + from.height + STICKY_GAP : from.y,
+  }
+}
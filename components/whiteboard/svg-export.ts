@@ -0,0 +1,237 @@
+import type { BackgroundType } from "./canvas"
+import {
+  bboxCenter,
+  getLocalBBox,
+  imageCrop,
+  isTurnable,
+  type ClosedShape,
+  type WhiteboardElement,
+} from "./elements"
+import type { ExportArea } from "./export"
+import { FRAME_COLOR, FRAME_STROKE_WIDTH, frameLabel } from "./frames"
+import { chiselOutline, HIGHLIGHTER_BLEND, HIGHLIGHTER_OPACITY } from "./highlighter"
+import { stackLayers } from "./layers"
+import {
+  arrowHeadPoints,
+  BACKGROUND_STEP,
+  DASH_PATTERN,
+  lineCapFor,
+  lineJoinFor,
+  patternColorFor,
+  textAnchorX,
+} from "./render"
+import { connectorHead, connectorPath } from "./connectors"
+import { hasPressure, strokeOutline, type StrokeOutline } from "./pressure"
+import { shapePath, type PathCommand } from "./shapes"
+import { smoothedStroke } from "./smoothing"
+import { stickyTextBox } from "./sticky"
+import { fontFamilyOf, layoutText, LINE_HEIGHT } from "./text"
+
+// Vector counterpart of drawScene: every element maps to the matching SVG primitive, in world
+// units, with the export area as the viewBox.
+
+const num = (v: number) => String(Math.round(v * 100) / 100)
+
+function escapeAttr(value: string) {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;")
+}
+
+function strokeAttrs(
+  stroke: string,
+  width: number,
+  dashed: boolean | undefined,
+  cap = "round",
+  join = "round",
+  fill = `fill="none"`,
+) {
+  const dash = dashed ? ` stroke-dasharray="${DASH_PATTERN.join(" ")}"` : ""
+  return `${fill} stroke="${escapeAttr(stroke)}" stroke-width="${num(width)}" stroke-linecap="${cap}" stroke-linejoin="${join}"${dash}`
+}
+
+// outline and fill of a closed shape
+function shapeAttrs(el: ClosedShape) {
+  if (el.fill == null) return strokeAttrs(el.stroke, el.strokeWidth, el.dashed)
+  const opacity = (el.fillOpacity ?? 1) < 1 ? ` fill-opacity="${num(el.fillOpacity!)}"` : ""
+  return strokeAttrs(el.stroke, el.strokeWidth, el.dashed, "round", "round", `fill="${escapeAttr(el.fill)}"${opacity}`)
+}
+
+function pathData(path: PathCommand[]) {
+  return path
+    .map((c) => {
+      if (c.op === "Z") return "Z"
+      if (c.op !== "C") return `${c.op}${num(c.x)} ${num(c.y)}`
+      return `C${[c.x1, c.y1, c.x2, c.y2, c.x, c.y].map(num).join(" ")}`
+    })
+    .join("")
+}
+
+// the discs and quads of a variable-width stroke as one path, filled nonzero like the canvas
+function outlinePath({ discs, quads }: StrokeOutline) {
+  const circle = ({ x, y, r }: StrokeOutline["discs"][number]) => {
+    const arc = `A${num(r)} ${num(r)} 0 1 1`
+    return `M${num(x + r)} ${num(y)}${arc} ${num(x - r)} ${num(y)}${arc} ${num(x + r)} ${num(y)}Z`
+  }
+  const quad = (q: number[]) => {
+    const [a, b, c, d] = [0, 2, 4, 6].map((i) => `${num(q[i])} ${num(q[i + 1])}`)
+    return `M${a}L${b}L${c}L${d}Z`
+  }
+  return [...discs.map(circle), ...quads.map(quad)].join("")
+}
+
+export function elementToSvg(el: WhiteboardElement): string {
+  if (isTurnable(el) && el.rotation) {
+    const c = bboxCenter(getLocalBBox(el))
+    const turn = `rotate(${num((el.rotation * 180) / Math.PI)} ${num(c.x)} ${num(c.y)})`
+    return `<g transform="${turn}">${elementToSvg({ ...el, rotation: undefined })}</g>`
+  }
+  switch (el.type) {
+    case "highlighter": {
+      const d = chiselOutline(el)
+        .map((polygon) => `M${polygon.map((p) => `${num(p.x)} ${num(p.y)}`).join("L")}Z`)
+        .join("")
+      const blend = `fill-opacity="${HIGHLIGHTER_OPACITY}" style="mix-blend-mode:${HIGHLIGHTER_BLEND}"`
+      return `<path d="${d}" fill="${escapeAttr(el.color)}" ${blend}/>`
+    }
+    case "pen": {
+      if (hasPressure(el)) return `<path d="${outlinePath(strokeOutline(el))}" fill="${escapeAttr(el.color)}"/>`
+      const pts = smoothedStroke(el).points
+      if (pts.length < 2) return ""
+      let d = `M${num(pts[0])} ${num(pts[1])}`
+      for (let i = 2; i + 1 < pts.length; i += 2) d += `L${num(pts[i])} ${num(pts[i + 1])}`
+      // a single tap is a dot; give the path a zero-length segment so the round cap shows
+      if (pts.length === 2) d += `l0 0`
+      const attrs = strokeAttrs(
+        el.color,
+        el.strokeWidth,
+        el.brushStyle === "dashed",
+        lineCapFor(el.brushStyle),
+        lineJoinFor(el.brushStyle),
+      )
+      return `<path d="${d}" ${attrs}/>`
+    }
+    case "rect": {
+      const { x0, y0, x1, y1 } = getLocalBBox(el)
+      const r = Math.min(el.cornerRadius ?? 0, (x1 - x0) / 2, (y1 - y0) / 2)
+      const corners = r > 0 ? ` rx="${num(r)}" ry="${num(r)}"` : ""
+      return `<rect x="${num(x0)}" y="${num(y0)}" width="${num(x1 - x0)}" height="${num(y1 - y0)}"${corners} ${shapeAttrs(el)}/>`
+    }
+    case "shape": {
+      const { outline, details } = shapePath(el)
+      const body = `<path d="${pathData(outline)}" ${shapeAttrs(el)}/>`
+      if (details.length === 0) return body
+      return `<g>${body}<path d="${pathData(details)}" ${strokeAttrs(el.stroke, el.strokeWidth, el.dashed)}/></g>`
+    }
+    case "circle": {
+      const radii = `rx="${num(el.radiusX)}" ry="${num(el.radiusY)}"`
+      return `<ellipse cx="${num(el.x)}" cy="${num(el.y)}" ${radii} ${shapeAttrs(el)}/>`
+    }
+    case "line":
+      return `<path d="${pathData(connectorPath(el))}" ${strokeAttrs(el.stroke, el.strokeWidth, el.dashed)}/>`
+    case "arrow": {
+      const end = connectorHead(el)
+      const head = arrowHeadPoints(end.x1, end.y1, end.x2, end.y2, el.strokeWidth)
+        .map((p) => `${num(p.x)},${num(p.y)}`)
+        .join(" ")
+      return (
+        `<g>` +
+        `<path d="${pathData(connectorPath(el))}" ${strokeAttrs(el.stroke, el.strokeWidth, el.dashed)}/>` +
+        `<polygon points="${head}" fill="${escapeAttr(el.stroke)}"/>` +
+        `</g>`
+      )
+    }
+    case "triangle": {
+      const pts = `${num(el.x1)},${num(el.y1)} ${num(el.x2)},${num(el.y2)} ${num(el.x3)},${num(el.y3)}`
+      return `<polygon points="${pts}" ${shapeAttrs(el)}/>`
+    }
+    case "image": {
+      // a nested viewport shows just the cropped part of the full-size image
+      const c = imageCrop(el)
+      const box = `x="${num(el.x)}" y="${num(el.y)}" width="${num(el.width)}" height="${num(el.height)}"`
+      const viewBox = `${num(c.x)} ${num(c.y)} ${num(c.width)} ${num(c.height)}`
+      const image = `<image width="${el.naturalWidth}" height="${el.naturalHeight}" href="${escapeAttr(el.src)}"/>`
+      return `<svg ${box} viewBox="${viewBox}" preserveAspectRatio="none">${image}</svg>`
+    }
+    case "sticky": {
+      const note = `<rect x="${num(el.x)}" y="${num(el.y)}" width="${num(el.width)}" height="${num(el.height)}" fill="${escapeAttr(el.color)}"/>`
+      return `<g>${note}${el.text ? elementToSvg(stickyTextBox(el)) : ""}</g>`
+    }
+    case "frame": {
+      const { x0, y0, x1, y1 } = getLocalBBox(el)
+      const box = `x="${num(x0)}" y="${num(y0)}" width="${num(x1 - x0)}" height="${num(y1 - y0)}"`
+      const outline = `<rect ${box} ${strokeAttrs(FRAME_COLOR, FRAME_STROKE_WIDTH, false)}/>`
+      return `<g>${outline}${elementToSvg(frameLabel(el))}</g>`
+    }
+    case "text": {
+      const { lines, width } = layoutText(el)
+      const x = num(textAnchorX(el, width))
+      const anchor = { left: "start", center: "middle", right: "end" }[el.align]
+      const font = `font-family="${escapeAttr(fontFamilyOf(el.fontFamily))}" font-size="${num(el.fontSize)}"`
+      const lineY = (i: number) => num(el.y + (i + 0.5) * el.fontSize * LINE_HEIGHT)
+      const tspans = lines.map((line, i) => `<tspan x="${x}" y="${lineY(i)}">${escapeAttr(line)}</tspan>`).join("")
+      // xml:space keeps runs of spaces as typed
+      const attrs = `${font} fill="${escapeAttr(el.color)}" text-anchor="${anchor}" dominant-baseline="middle"`
+      return `<text ${attrs} xml:space="preserve">${tspans}</text>`
+    }
+  }
+}
+
+// One tile of the page pattern. Tiles are shifted by half a step so dots and lines sit on
+// multiples of BACKGROUND_STEP in world space, matching the canvas.
+function patternTile(type: BackgroundType, color: string) {
+  const s = BACKGROUND_STEP
+  const h = s / 2
+  const stroke = `stroke="${color}" stroke-width="1" fill="none"`
+  switch (type) {
+    case "dotted":
+      return `<circle cx="${h}" cy="${h}" r="1" fill="${color}"/>`
+    case "grid":
+      return `<path d="M${h} 0V${s}M0 ${h}H${s}" ${stroke}/>`
+    case "ruled":
+      return `<path d="M0 ${h}H${s}" ${stroke}/>`
+    case "matrix":
+      return `<path d="M0 0L${s} ${s}M${s} 0L0 ${s}" ${stroke}/>`
+    case "plain":
+      return null
+  }
+}
+
+export function buildSvg(
+  area: ExportArea,
+  options: {
+    scale: number
+    background: boolean
+    pattern: boolean
+    backgroundType: BackgroundType
+    backgroundColor: string
+  },
+) {
+  const { x, y, width, height } = area.rect
+  const ratio = area.unitsToPx * options.scale
+  const parts: string[] = []
+
+  if (options.background) {
+    const bg = `x="${num(x)}" y="${num(y)}" width="${num(width)}" height="${num(height)}"`
+    parts.push(`<rect ${bg} fill="${escapeAttr(options.backgroundColor)}"/>`)
+    const tile = options.pattern ? patternTile(options.backgroundType, patternColorFor(options.backgroundColor)) : null
+    if (tile) {
+      const s = BACKGROUND_STEP
+      parts.push(
+        `<defs><pattern id="chalklet-bg" patternUnits="userSpaceOnUse" x="${-s / 2}" y="${-s / 2}" width="${s}" height="${s}">${tile}</pattern></defs>`,
+        `<rect ${bg} fill="url(#chalklet-bg)"/>`,
+      )
+    }
+  }
+  for (const { layer, elements } of stackLayers(area.elements, area.layers)) {
+    const svgs = elements.map(elementToSvg).filter(Boolean)
+    if (svgs.length === 0) continue
+    if (layer.opacity < 1) parts.push(`<g opacity="${num(layer.opacity)}">`, ...svgs.map((svg) => `  ${svg}`), `</g>`)
+    else parts.push(...svgs)
+  }
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${num(width * ratio)}" height="${num(height * ratio)}" viewBox="${num(x)} ${num(y)} ${num(width)} ${num(height)}">`,
+    ...parts.map((p) => `  ${p}`),
+    `</svg>`,
+    "",
+  ].join("\n")
+}
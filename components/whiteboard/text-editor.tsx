@@ -0,0 +1,84 @@
+"use client"
+
+import { useEffect, useRef } from "react"
+import type { TextItem } from "./elements"
+import { fontFamilyOf, layoutText, LINE_HEIGHT } from "./text"
+
+// A textarea laid over the canvas exactly where the text element draws, scaled with the view.
+// Enter adds a line; Escape, Ctrl+Enter or clicking away finishes. Tab goes to `onTab` if given.
+// With `singleLine`, as for frame names, Enter finishes too.
+// `turn` tilts it with a turned element, by `angle` radians about the board point `about`.
+export function TextEditor({
+  element,
+  scale,
+  offset,
+  turn,
+  onChange,
+  onDone,
+  onTab,
+  singleLine = false,
+}: {
+  element: TextItem
+  scale: number
+  offset: { x: number; y: number }
+  turn?: { angle: number; about: { x: number; y: number } }
+  onChange: (text: string) => void
+  onDone: () => void
+  onTab?: (shiftKey: boolean) => void
+  singleLine?: boolean
+}) {
+  const ref = useRef<HTMLTextAreaElement>(null)
+
+  useEffect(() => {
+    const textarea = ref.current
+    if (!textarea) return
+    textarea.focus()
+    textarea.setSelectionRange(textarea.value.length, textarea.value.length)
+  }, [])
+
+  const { width, height } = layoutText(element)
+  // room for the caret at the end of an unwrapped line
+  const boxWidth = element.width ?? Math.max(width, element.fontSize) + element.fontSize / 2
+
+  return (
+    <textarea
+      ref={ref}
+      value={element.text}
+      aria-label="Text"
+      spellCheck={false}
+      onChange={(e) => onChange(e.target.value)}
+      onBlur={onDone}
+      onKeyDown={(e) => {
+        if (e.key === "Escape" || (e.key === "Enter" && (singleLine || e.ctrlKey || e.metaKey))) {
+          e.preventDefault()
+          onDone()
+        } else if (e.key === "Tab" && onTab) {
+          e.preventDefault()
+          onTab(e.shiftKey)
+        }
+      }}
+      style={{
+        position: "absolute",
+        left: element.x * scale + offset.x,
+        top: element.y * scale + offset.y,
+        width: boxWidth * scale,
+        height: Math.max(height, element.fontSize * LINE_HEIGHT) * scale,
+        font: `${element.fontSize * scale}px ${fontFamilyOf(element.fontFamily)}`,
+        lineHeight: LINE_HEIGHT,
+        color: element.color,
+        textAlign: element.align,
+        whiteSpace: element.width == null ? "pre" : "pre-wrap",
+        overflowWrap: "break-word",
+        margin: 0,
+        padding: 0,
+        border: 0,
+        outline: "1px dashed #3b82f6",
+        background: "transparent",
+        resize: "none",
+        overflow: "hidden",
+        transform: turn && `rotate(${turn.angle}rad)`,
+        transformOrigin: turn && `${(turn.about.x - element.x) * scale}px ${(turn.about.y - element.y) * scale}px`,
+      }}
+    />
+  )
+}
@@ -0,0 +1,107 @@
+import type { TextItem } from "./elements"
+
+// Text layout shared by the canvas, the in-place editor and the exporters. A text element is
+// laid out as lines of LINE_HEIGHT * fontSize, either as typed (no `width`) or word-wrapped to
+// its `width`.
+
+export type TextFont = "sans" | "mono"
+export type TextAlign = "left" | "center" | "right"
+// the text options on the toolbar; `wrap` gives new text a wrapping width
+export type TextStyle = { fontFamily: TextFont; fontSize: number; align: TextAlign; wrap: boolean }
+
+export const TEXT_FONTS: Record<TextFont, { label: string; variable: string; fallback: string }> = {
+  sans: { label: "Geist Sans", variable: "--font-geist-sans", fallback: "sans-serif" },
+  mono: { label: "Geist Mono", variable: "--font-geist-mono", fallback: "monospace" },
+}
+export const FONT_SIZES = [12, 16, 20, 24, 32, 48, 64]
+export const LINE_HEIGHT = 1.25
+export const DEFAULT_WRAP_WIDTH = 320 // world units
+
+type TextLayout = { lines: string[]; width: number; height: number }
+
+const families = new Map<TextFont, string>()
+const layouts = new Map<string, TextLayout>()
+const MAX_LAYOUTS = 500
+const fontListeners = new Set<() => void>()
+let measureCtx: CanvasRenderingContext2D | null | undefined
+
+// CSS font-family list for a font. The Geist faces are registered by next/font under generated
+// names, which app/layout.tsx publishes as CSS variables on the body.
+export function fontFamilyOf(font: TextFont) {
+  const known = families.get(font)
+  if (known) return known
+  const { variable, fallback } = TEXT_FONTS[font]
+  if (typeof document === "undefined") return fallback
+  const name = getComputedStyle(document.body).getPropertyValue(variable).trim()
+  const family = name ? `${name}, ${fallback}` : fallback
+  families.set(font, family)
+  // canvas text doesn't make the browser fetch a web font, so ask for it; layouts measured with
+  // the fallback are dropped once it arrives
+  document.fonts?.load(`16px ${family}`).then(() => {
+    layouts.clear()
+    fontListeners.forEach((listener) => listener())
+  })
+  return family
+}
+
+export function onFontLoad(listener: () => void) {
+  fontListeners.add(listener)
+  return () => {
+    fontListeners.delete(listener)
+  }
+}
+
+export function textFont(el: Pick<TextItem, "fontFamily" | "fontSize">) {
+  return `${el.fontSize}px ${fontFamilyOf(el.fontFamily)}`
+}
+
+function measureContext() {
+  if (measureCtx === undefined) {
+    measureCtx = typeof document === "undefined" ? null : document.createElement("canvas").getContext("2d")
+  }
+  return measureCtx
+}
+
+// greedy word wrap; a word longer than the width is broken between characters
+function wrapParagraph(paragraph: string, maxWidth: number, widthOf: (s: string) => number) {
+  const lines: string[] = []
+  let current = ""
+  for (const token of paragraph.split(/(\s+)/)) {
+    if (!token) continue
+    if (widthOf(current + token) <= maxWidth) {
+      current += token
+      continue
+    }
+    if (current.trim()) lines.push(current.trimEnd())
+    current = token.trimStart()
+    while (current.length > 1 && widthOf(current) > maxWidth) {
+      let fit = 1
+      while (fit < current.length && widthOf(current.slice(0, fit + 1)) <= maxWidth) fit++
+      lines.push(current.slice(0, fit))
+      current = current.slice(fit)
+    }
+  }
+  lines.push(current.trimEnd())
+  return lines
+}
+
+export function layoutText(el: Pick<TextItem, "text" | "fontFamily" | "fontSize" | "width">): TextLayout {
+  const key = `${el.fontFamily}|${el.fontSize}|${el.width ?? ""}|${el.text}`
+  const cached = layouts.get(key)
+  if (cached) return cached
+
+  const ctx = measureContext()
+  if (ctx) ctx.font = textFont(el)
+  // without a canvas (server render) fall back to a rough average glyph width
+  const widthOf = (s: string) => (ctx ? ctx.measureText(s).width : s.length * el.fontSize * 0.6)
+  const paragraphs = el.text.split("\n")
+  const lines = el.width == null ? paragraphs : paragraphs.flatMap((p) => wrapParagraph(p, el.width!, widthOf))
+  const layout = {
+    lines,
+    width: el.width ?? Math.max(0, ...lines.map(widthOf)),
+    height: lines.length * el.fontSize * LINE_HEIGHT,
+  }
+  if (layouts.size >= MAX_LAYOUTS) layouts.clear()
+  layouts.set(key, layout)
+  return layout
+}
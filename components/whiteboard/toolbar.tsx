@@ -7,8 +7,41 @@ import { Slider } from "@/components/ui/slider"
 import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Separator } from "@/components/ui/separator"
-import { Paintbrush, Eraser, Move, Square, Circle, Slash, ArrowRight, Triangle, MousePointer } from "lucide-react"
+import { Toggle } from "@/components/ui/toggle"
+import {
+  Paintbrush,
+  Highlighter,
+  Eraser,
+  Move,
+  Square,
+  Circle,
+  Slash,
+  ArrowRight,
+  Triangle,
+  MousePointer,
+  Undo2,
+  Redo2,
+  ImagePlus,
+  Type,
+  StickyNote,
+  Frame,
+  AlignLeft,
+  AlignCenter,
+  AlignRight,
+  WrapText,
+  Shapes,
+  Minus,
+  CornerDownRight,
+  Spline,
+} from "lucide-react"
 import type { BackgroundType, Tool, BrushStyle } from "./canvas"
+import type { ConnectorRouting } from "./elements"
+import type { HistoryState } from "./history"
+import { FillPicker } from "./fill-picker"
+import { HistoryPanel } from "./history-panel"
+import { ShapePicker } from "./shape-picker"
+import type { LibraryShape, ShapeStyle } from "./shapes"
+import { FONT_SIZES, TEXT_FONTS, type TextAlign, type TextFont, type TextStyle } from "./text"
 
 const COLORS = [
   "#4b5563", // soft charcoal gray
@@ -36,15 +69,40 @@ export function Toolbar(props: {
   onColorChange: (c: string) => void
   strokeWidth: number
   onStrokeWidthChange: (n: number) => void
+  onStrokeWidthCommit?: () => void
   brushStyle: BrushStyle
   onBrushStyleChange: (s: BrushStyle) => void
+  smoothing: number
+  onSmoothingChange: (n: number) => void
+  snapShapes: boolean
+  onSnapShapesChange: (on: boolean) => void
+  fill: string | null
+  onFillChange: (fill: string | null) => void
+  fillOpacity: number
+  onFillOpacityChange: (opacity: number) => void
+  onFillOpacityCommit?: () => void
+  shapeStyle: ShapeStyle
+  onShapePick: (shape: LibraryShape) => void
+  onShapeStyleChange: (patch: Partial<ShapeStyle>) => void
+  onShapeStyleCommit?: () => void
+  routing: ConnectorRouting
+  onRoutingChange: (r: ConnectorRouting) => void
+  showConnectorOptions: boolean
+  textStyle: TextStyle
+  onTextStyleChange: (s: Partial<TextStyle>) => void
+  showTextOptions: boolean
   background: BackgroundType
   onBackgroundChange: (b: BackgroundType) => void
   backgroundColor: string
   onBackgroundColorChange: (c: string) => void
+  history: HistoryState
+  onUndo: (steps?: number) => void
+  onRedo: (steps?: number) => void
+  onInsertImages: (files: File[]) => void
 }) {
   const colorOptions = useMemo(() => COLORS, [])
   const colorPickerRef = useRef<HTMLInputElement>(null)
+  const imagePickerRef = useRef<HTMLInputElement>(null)
 
   return (
     <div className="w-full bg-card text-foreground">
@@ -55,6 +113,9 @@ export function Toolbar(props: {
             <ToggleGroupItem value="pen" aria-label="Pen">
               <Paintbrush className="size-4" />
             </ToggleGroupItem>
+            <ToggleGroupItem value="highlighter" aria-label="Highlighter">
+              <Highlighter className="size-4" />
+            </ToggleGroupItem>
             <ToggleGroupItem value="eraser" aria-label="Eraser">
               <Eraser className="size-4" />
             </ToggleGroupItem>
@@ -64,7 +125,7 @@ export function Toolbar(props: {
             <ToggleGroupItem value="rect" aria-label="Rectangle">
               <Square className="size-4" />
             </ToggleGroupItem>
-            <ToggleGroupItem value="circle" aria-label="Circle">
+            <ToggleGroupItem value="circle" aria-label="Ellipse" title="Ellipse (Shift draws a circle)">
               <Circle className="size-4" />
             </ToggleGroupItem>
             <ToggleGroupItem value="line" aria-label="Line">
@@ -76,6 +137,19 @@ export function Toolbar(props: {
             <ToggleGroupItem value="triangle" aria-label="Triangle">
               <Triangle className="size-4" />
             </ToggleGroupItem>
+            <ToggleGroupItem value="text" aria-label="Text">
+              <Type className="size-4" />
+            </ToggleGroupItem>
+            <ToggleGroupItem
+              value="sticky"
+              aria-label="Sticky note"
+              title="Sticky note (Tab / Shift+Tab adds the next one)"
+            >
+              <StickyNote className="size-4" />
+            </ToggleGroupItem>
+            <ToggleGroupItem value="frame" aria-label="Frame" title="Frame (a named region; PDF export can print each)">
+              <Frame className="size-4" />
+            </ToggleGroupItem>
             <ToggleGroupItem value="select" aria-label="Select">
               <MousePointer className="size-4" />
             </ToggleGroupItem>
@@ -83,6 +157,63 @@ export function Toolbar(props: {
               <span className="text-xs font-medium">Laser</span>
             </ToggleGroupItem>
           </ToggleGroup>
+
+          {/* Shape library */}
+          <ShapePicker
+            active={props.tool === "shape"}
+            style={props.shapeStyle}
+            onPick={props.onShapePick}
+            onStyleChange={props.onShapeStyleChange}
+            onStyleCommit={props.onShapeStyleCommit}
+          />
+
+          {/* Insert Image */}
+          <Button
+            size="icon"
+            variant="ghost"
+            onClick={() => imagePickerRef.current?.click()}
+            aria-label="Insert image"
+            title="Insert image"
+          >
+            <ImagePlus className="size-4" />
+          </Button>
+          <input
+            ref={imagePickerRef}
+            type="file"
+            accept="image/*"
+            multiple
+            className="hidden"
+            onChange={(e) => {
+              const files = Array.from(e.target.files ?? [])
+              e.target.value = "" // allow picking the same file again
+              props.onInsertImages(files)
+            }}
+          />
+
+          <Separator orientation="vertical" className="h-6" />
+
+          {/* Undo / Redo */}
+          <Button
+            size="icon"
+            variant="ghost"
+            onClick={() => props.onUndo()}
+            disabled={props.history.undo.length === 0}
+            aria-label="Undo"
+            title="Undo (Ctrl+Z)"
+          >
+            <Undo2 className="size-4" />
+          </Button>
+          <Button
+            size="icon"
+            variant="ghost"
+            onClick={() => props.onRedo()}
+            disabled={props.history.redo.length === 0}
+            aria-label="Redo"
+            title="Redo (Ctrl+Shift+Z)"
+          >
+            <Redo2 className="size-4" />
+          </Button>
+          <HistoryPanel history={props.history} onUndo={props.onUndo} onRedo={props.onRedo} />
         </div>
 
         {/* OPTIONS */}
@@ -123,6 +254,15 @@ export function Toolbar(props: {
             </div>
           </div>
 
+          {/* Fill, for rectangles, circles, triangles and library shapes */}
+          <FillPicker
+            fill={props.fill}
+            fillOpacity={props.fillOpacity}
+            onFillChange={props.onFillChange}
+            onFillOpacityChange={props.onFillOpacityChange}
+            onFillOpacityCommit={props.onFillOpacityCommit}
+          />
+
           <Separator orientation="vertical" className="h-6" />
 
           {/* Stroke Width */}
@@ -135,12 +275,121 @@ export function Toolbar(props: {
                 max={24}
                 step={1}
                 onValueChange={(v) => props.onStrokeWidthChange(v[0] ?? props.strokeWidth)}
+                onValueCommit={() => props.onStrokeWidthCommit?.()}
+                onPointerUp={() => props.onStrokeWidthCommit?.()}
               />
             </div>
           </div>
 
+          {/* Smoothing and shape snapping, for new pen strokes */}
+          {props.tool === "pen" && (
+            <div className="flex items-center gap-2">
+              <span className="text-xs text-muted-foreground">Smoothing</span>
+              <div className="w-24">
+                <Slider
+                  value={[props.smoothing * 100]}
+                  min={0}
+                  max={100}
+                  step={5}
+                  onValueChange={(v) => props.onSmoothingChange((v[0] ?? props.smoothing * 100) / 100)}
+                  aria-label="Smoothing"
+                />
+              </div>
+              <Toggle
+                pressed={props.snapShapes}
+                onPressedChange={props.onSnapShapesChange}
+                aria-label="Snap shapes"
+                title="Snap shapes (or hold the pen still at the end of a stroke)"
+              >
+                <Shapes className="size-4" />
+              </Toggle>
+            </div>
+          )}
+
+          {/* Routing, for the line and arrow tools or selected lines and arrows */}
+          {props.showConnectorOptions && (
+            <ToggleGroup
+              type="single"
+              value={props.routing}
+              onValueChange={(v) => v && props.onRoutingChange(v as ConnectorRouting)}
+            >
+              <ToggleGroupItem value="straight" aria-label="Straight" title="Straight">
+                <Minus className="size-4" />
+              </ToggleGroupItem>
+              <ToggleGroupItem value="elbow" aria-label="Elbow" title="Elbow">
+                <CornerDownRight className="size-4" />
+              </ToggleGroupItem>
+              <ToggleGroupItem value="curved" aria-label="Curved" title="Curved">
+                <Spline className="size-4" />
+              </ToggleGroupItem>
+            </ToggleGroup>
+          )}
+
           <Separator orientation="vertical" className="h-6" />
 
+          {/* Text Options, for the text tool or selected text */}
+          {props.showTextOptions && (
+            <>
+              <div className="flex items-center gap-2">
+                <Select
+                  value={props.textStyle.fontFamily}
+                  onValueChange={(v) => props.onTextStyleChange({ fontFamily: v as TextFont })}
+                >
+                  <SelectTrigger className="w-[130px]" aria-label="Font">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(TEXT_FONTS) as TextFont[]).map((font) => (
+                      <SelectItem key={font} value={font}>
+                        {TEXT_FONTS[font].label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={String(props.textStyle.fontSize)}
+                  onValueChange={(v) => props.onTextStyleChange({ fontSize: Number(v) })}
+                >
+                  <SelectTrigger className="w-[80px]" aria-label="Font size">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {FONT_SIZES.map((size) => (
+                      <SelectItem key={size} value={String(size)}>
+                        {size}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <ToggleGroup
+                  type="single"
+                  value={props.textStyle.align}
+                  onValueChange={(v) => v && props.onTextStyleChange({ align: v as TextAlign })}
+                >
+                  <ToggleGroupItem value="left" aria-label="Align left">
+                    <AlignLeft className="size-4" />
+                  </ToggleGroupItem>
+                  <ToggleGroupItem value="center" aria-label="Align center">
+                    <AlignCenter className="size-4" />
+                  </ToggleGroupItem>
+                  <ToggleGroupItem value="right" aria-label="Align right">
+                    <AlignRight className="size-4" />
+                  </ToggleGroupItem>
+                </ToggleGroup>
+                <Toggle
+                  pressed={props.textStyle.wrap}
+                  onPressedChange={(wrap) => props.onTextStyleChange({ wrap })}
+                  aria-label="Wrap text"
+                  title="Wrap text (drag a side handle to change the width)"
+                >
+                  <WrapText className="size-4" />
+                </Toggle>
+              </div>
+
+              <Separator orientation="vertical" className="h-6" />
+            </>
+          )}
+
           {/* Brush Style */}
           <Select value={props.brushStyle} onValueChange={(v) => props.onBrushStyleChange(v as BrushStyle)}>
             <SelectTrigger className="w-[140px]">
@@ -0,0 +1,84 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { toast } from "sonner"
+import { loadBoard, saveBoard, type StoredBoard } from "./board-storage"
+import type { Board } from "./use-board"
+
+const AUTOSAVE_DELAY = 600 // ms of inactivity before writing
+
+// one toast id, so a failing store doesn't stack a toast per edit
+function reportSaveFailure() {
+  toast.error("Autosave failed", {
+    id: "autosave-failed",
+    description: "Recent changes are only kept in this tab. Save the board to a file to keep them.",
+  })
+}
+
+export function useAutosave(board: Board) {
+  // nothing is written until the stored board has been read, so an empty first render
+  // can't overwrite the work we're about to recover
+  const [ready, setReady] = useState(false)
+  const pendingRef = useRef<StoredBoard | null>(null)
+  const { restore } = board
+
+  useEffect(() => {
+    let cancelled = false
+    loadBoard()
+      .then((stored) => {
+        if (cancelled || !stored) return
+        restore(stored)
+        if (stored.pages.some((page) => page.elements.length > 0)) {
+          toast("Recovered board", {
+            description: `Restored from ${new Date(stored.savedAt).toLocaleString()}`,
+          })
+        }
+      })
+      .catch(() => {
+        // private browsing or blocked storage: start with a blank board
+        toast.error("Couldn't restore your board", { description: "Browser storage isn't available." })
+      })
+      .finally(() => {
+        if (!cancelled) setReady(true)
+      })
+    return () => {
+      cancelled = true
+    }
+    // restore runs once on mount
+  }, [])
+
+  useEffect(() => {
+    if (!ready) return
+    const snapshot: StoredBoard = {
+      pages: board.pages,
+      activePageId: board.activePageId,
+      viewport: { scale: board.scale, offset: board.offset },
+      savedAt: Date.now(),
+    }
+    pendingRef.current = snapshot
+    const timer = window.setTimeout(() => {
+      pendingRef.current = null
+      saveBoard(snapshot).catch(reportSaveFailure)
+    }, AUTOSAVE_DELAY)
+    return () => window.clearTimeout(timer)
+  }, [ready, board.pages, board.activePageId, board.scale, board.offset])
+
+  // write out anything still waiting on the debounce when the tab is hidden or closed
+  useEffect(() => {
+    const flush = () => {
+      const pending = pendingRef.current
+      if (!pending) return
+      pendingRef.current = null
+      saveBoard({ ...pending, savedAt: Date.now() }).catch(reportSaveFailure)
+    }
+    const onVisibility = () => {
+      if (document.visibilityState === "hidden") flush()
+    }
+    window.addEventListener("pagehide", flush)
+    document.addEventListener("visibilitychange", onVisibility)
+    return () => {
+      window.removeEventListener("pagehide", flush)
+      document.removeEventListener("visibilitychange", onVisibility)
+    }
+  }, [])
+}
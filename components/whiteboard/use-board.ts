@@ -0,0 +1,345 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState, type SetStateAction } from "react"
+import { rerouteConnectors } from "./bindings"
+import type { BackgroundType } from "./canvas"
+import { createId, restyleElement, type ElementStyle, type WhiteboardElement } from "./elements"
+import { applyOperations, describeChange, diffScene, type ChangeKind, type HistoryState, type Scene } from "./history"
+import { createLayer, isEditable, type Layer } from "./layers"
+
+export type Viewport = { scale: number; offset: { x: number; y: number } }
+
+// One page of a board. Each page has its own scene, layers, page style and undo history.
+export type BoardPage = {
+  id: string
+  name: string
+  elements: WhiteboardElement[]
+  layers: Layer[] // bottom to top
+  activeLayerId: string // where new elements go
+  background: BackgroundType
+  backgroundColor: string
+  history: HistoryState
+}
+
+const MAX_HISTORY = 5000
+
+export function createPage(name: string, style?: Pick<BoardPage, "background" | "backgroundColor">): BoardPage {
+  const layer = createLayer("Layer 1")
+  return {
+    id: createId(),
+    name,
+    elements: [],
+    layers: [layer],
+    activeLayerId: layer.id,
+    background: style?.background ?? "plain",
+    backgroundColor: style?.backgroundColor ?? "#ffffff",
+    history: { undo: [], redo: [] },
+  }
+}
+
+// first "Page N" name not already taken
+function nextPageName(pages: BoardPage[]) {
+  const taken = new Set(pages.map((p) => p.name))
+  let n = pages.length + 1
+  while (taken.has(`Page ${n}`)) n++
+  return `Page ${n}`
+}
+
+// Board document state (pages, selection, viewport, undo history) lives here rather than in
+// the canvas so the app shell can persist, load and inspect it alongside the page settings.
+// The scene-level fields (elements, layers, history, background) always refer to the active page.
+export function useBoard() {
+  const [pages, setPages] = useState<BoardPage[]>(() => [createPage("Page 1")])
+  const [activePageId, setActivePageId] = useState(() => pages[0].id)
+  const page = pages.find((p) => p.id === activePageId) ?? pages[0]
+  const pagesRef = useRef(pages)
+  pagesRef.current = pages
+  const activeIdRef = useRef(page.id)
+  activeIdRef.current = page.id
+
+  const { elements, layers, background, backgroundColor } = page
+  // falls back to the top layer if the active one was removed
+  const activeLayerId = layers.some((l) => l.id === page.activeLayerId)
+    ? page.activeLayerId
+    : layers[layers.length - 1].id
+  const [selectedIds, setSelectedIds] = useState<string[]>([])
+  const sceneRef = useRef<Scene>({ elements, layers })
+  if (sceneRef.current.elements !== elements || sceneRef.current.layers !== layers) {
+    sceneRef.current = { elements, layers }
+  }
+
+  // world transform, shared by all pages
+  const [scale, setScale] = useState(1)
+  const [offset, setOffset] = useState({ x: 0, y: 0 })
+  // on-screen canvas size in CSS pixels, reported by the canvas
+  const [viewSize, setViewSize] = useState({ width: 0, height: 0 })
+
+  const updatePage = useCallback((id: string, update: (page: BoardPage) => BoardPage) => {
+    setPages((prev) => prev.map((p) => (p.id === id ? update(p) : p)))
+  }, [])
+
+  // whatever moved or reshaped an element, the connectors attached to it follow
+  const setElements = useCallback(
+    (next: SetStateAction<WhiteboardElement[]>) => {
+      updatePage(activeIdRef.current, (p) => ({
+        ...p,
+        elements: rerouteConnectors(typeof next === "function" ? next(p.elements) : next),
+      }))
+    },
+    [updatePage],
+  )
+  // layer edits made outside a beginChange()/commitChange() pair are not recorded
+  const setLayers = useCallback(
+    (update: (layers: Layer[]) => Layer[]) => {
+      updatePage(activeIdRef.current, (p) => ({ ...p, layers: update(p.layers) }))
+    },
+    [updatePage],
+  )
+  const setActiveLayerId = useCallback(
+    (id: string) => updatePage(activeIdRef.current, (p) => ({ ...p, activeLayerId: id })),
+    [updatePage],
+  )
+  const setBackground = useCallback(
+    (next: BackgroundType) => updatePage(activeIdRef.current, (p) => ({ ...p, background: next })),
+    [updatePage],
+  )
+  const setBackgroundColor = useCallback(
+    (next: string) => updatePage(activeIdRef.current, (p) => ({ ...p, backgroundColor: next })),
+    [updatePage],
+  )
+
+  // undo/redo stacks of the active page; the ref is read synchronously by undo/redo, the
+  // page state drives the UI
+  const history = page.history
+  const historyRef = useRef<HistoryState>(history)
+  historyRef.current = history
+  const setHistory = useCallback(
+    (next: HistoryState) => {
+      historyRef.current = next
+      updatePage(activeIdRef.current, (p) => ({ ...p, history: next }))
+    },
+    [updatePage],
+  )
+
+  // A change spans a whole gesture: beginChange() on pointer-down remembers the scene, and
+  // commitChange() on pointer-up records one entry if the scene actually changed.
+  const pendingRef = useRef<{ pageId: string; before: Scene } | null>(null)
+  const [commitRequest, setCommitRequest] = useState<{ kind: ChangeKind; label?: string } | null>(null)
+
+  const beginChange = useCallback(() => {
+    if (!pendingRef.current) pendingRef.current = { pageId: activeIdRef.current, before: sceneRef.current }
+  }, [])
+
+  const commitChange = useCallback((kind: ChangeKind, label?: string) => {
+    setCommitRequest({ kind, label })
+  }, [])
+
+  // runs after the render that carries the gesture's final setElements
+  useEffect(() => {
+    if (!commitRequest) return
+    setCommitRequest(null)
+    const pending = pendingRef.current
+    pendingRef.current = null
+    if (!pending || pending.pageId !== page.id) return
+    const ops = diffScene(pending.before, { elements, layers })
+    if (ops.length === 0) return
+    const entry = {
+      id: createId(),
+      label: commitRequest.label ?? describeChange(commitRequest.kind, pending.before.elements, ops),
+      ops,
+    }
+    const undo = [...historyRef.current.undo, entry]
+    const trimmed = historyRef.current.trimmed || undo.length > MAX_HISTORY
+    setHistory({ undo: undo.slice(-MAX_HISTORY), redo: [], trimmed })
+  }, [commitRequest, elements, layers, page.id, setHistory])
+
+  // a layer edit as a single undo step
+  const changeLayers = useCallback(
+    (update: (layers: Layer[]) => Layer[], label: string) => {
+      beginChange()
+      setLayers(update)
+      commitChange("edit", label)
+    },
+    [beginChange, setLayers, commitChange],
+  )
+
+  // applies toolbar style to the selected elements on editable layers; the caller records it
+  // with commitChange("restyle"), so a width slider drag becomes one step. Sliders commit on
+  // pointer-up as well as onValueCommit, which Radix skips when a drag ends on the value it
+  // started from; the change left open would otherwise swallow the next gesture.
+  const restyleSelection = useCallback(
+    (style: ElementStyle) => {
+      const { elements: current, layers: currentLayers } = sceneRef.current
+      const ids = new Set(selectedIds)
+      if (!current.some((el) => ids.has(el.id) && isEditable(el, currentLayers))) return
+      beginChange()
+      setElements((els) =>
+        els.map((el) => (ids.has(el.id) && isEditable(el, currentLayers) ? restyleElement(el, style) : el)),
+      )
+    },
+    [selectedIds, beginChange, setElements],
+  )
+
+  const travel = useCallback(
+    (direction: "undo" | "redo", steps: number) => {
+      let { undo: past, redo: future } = historyRef.current
+      let current = sceneRef.current
+      let moved = 0
+      while (moved < steps) {
+        const from = direction === "undo" ? past : future
+        const entry = from[from.length - 1]
+        if (!entry) break
+        if (direction === "undo") {
+          past = past.slice(0, -1)
+          future = [...future, entry]
+        } else {
+          future = future.slice(0, -1)
+          past = [...past, entry]
+        }
+        current = applyOperations(current, entry.ops, direction === "undo" ? "backward" : "forward")
+        moved++
+      }
+      if (moved === 0) return false
+      pendingRef.current = null
+      sceneRef.current = current
+      updatePage(activeIdRef.current, (p) => ({ ...p, ...current }))
+      setSelectedIds([])
+      setHistory({ ...historyRef.current, undo: past, redo: future })
+      return true
+    },
+    [updatePage, setHistory],
+  )
+  const undo = useCallback((steps = 1) => travel("undo", steps), [travel])
+  const redo = useCallback((steps = 1) => travel("redo", steps), [travel])
+
+  const selectPage = useCallback((id: string) => {
+    pendingRef.current = null
+    activeIdRef.current = id
+    setActivePageId(id)
+    setSelectedIds([])
+  }, [])
+
+  // new blank page right after the active one, in the same page style
+  const addPage = useCallback(() => {
+    const current = pagesRef.current
+    const index = current.findIndex((p) => p.id === activeIdRef.current)
+    const created = createPage(nextPageName(current), current[index])
+    setPages([...current.slice(0, index + 1), created, ...current.slice(index + 1)])
+    selectPage(created.id)
+  }, [selectPage])
+
+  const duplicatePage = useCallback(
+    (id: string) => {
+      const current = pagesRef.current
+      const index = current.findIndex((p) => p.id === id)
+      if (index === -1) return
+      const source = current[index]
+      const copy = { ...source, id: createId(), name: `${source.name} copy`, history: { undo: [], redo: [] } }
+      setPages([...current.slice(0, index + 1), copy, ...current.slice(index + 1)])
+      selectPage(copy.id)
+    },
+    [selectPage],
+  )
+
+  const movePage = useCallback((id: string, toIndex: number) => {
+    setPages((prev) => {
+      const from = prev.findIndex((p) => p.id === id)
+      if (from === -1 || from === toIndex) return prev
+      const next = prev.slice()
+      next.splice(toIndex, 0, ...next.splice(from, 1))
+      return next
+    })
+  }, [])
+
+  const renamePage = useCallback(
+    (id: string, name: string) => updatePage(id, (p) => ({ ...p, name })),
+    [updatePage],
+  )
+
+  // removes a page and returns it with its position so it can be put back; the last page stays
+  const deletePage = useCallback(
+    (id: string) => {
+      const current = pagesRef.current
+      const index = current.findIndex((p) => p.id === id)
+      if (index === -1 || current.length === 1) return null
+      const rest = current.filter((p) => p.id !== id)
+      setPages(rest)
+      if (id === activeIdRef.current) selectPage(rest[Math.min(index, rest.length - 1)].id)
+      return { page: current[index], index }
+    },
+    [selectPage],
+  )
+
+  const insertPage = useCallback(
+    (inserted: BoardPage, index: number) => {
+      setPages((prev) => [...prev.slice(0, index), inserted, ...prev.slice(index)])
+      selectPage(inserted.id)
+    },
+    [selectPage],
+  )
+
+  // replaces every page at once, e.g. when a file is opened
+  const loadPages = useCallback(
+    (next: BoardPage[], activeId?: string) => {
+      if (next.length === 0) return
+      const capped = next.map((p) => {
+        const { undo, redo } = p.history
+        const trimmed = p.history.trimmed || undo.length > MAX_HISTORY
+        return { ...p, history: { undo: undo.slice(-MAX_HISTORY), redo: redo.slice(-MAX_HISTORY), trimmed } }
+      })
+      setPages(capped)
+      selectPage(capped.find((p) => p.id === activeId)?.id ?? capped[0].id)
+    },
+    [selectPage],
+  )
+
+  const restore = useCallback(
+    (data: { pages: BoardPage[]; activePageId: string; viewport: Viewport }) => {
+      loadPages(data.pages, data.activePageId)
+      setScale(data.viewport.scale)
+      setOffset(data.viewport.offset)
+    },
+    [loadPages],
+  )
+
+  return {
+    pages,
+    activePageId: page.id,
+    selectPage,
+    addPage,
+    duplicatePage,
+    movePage,
+    renamePage,
+    deletePage,
+    insertPage,
+    loadPages,
+    elements,
+    setElements,
+    layers,
+    setLayers,
+    changeLayers,
+    activeLayerId,
+    setActiveLayerId,
+    background,
+    setBackground,
+    backgroundColor,
+    setBackgroundColor,
+    selectedIds,
+    setSelectedIds,
+    restyleSelection,
+    scale,
+    setScale,
+    offset,
+    setOffset,
+    viewSize,
+    setViewSize,
+    history,
+    beginChange,
+    commitChange,
+    undo,
+    redo,
+    restore,
+  }
+}
+
+export type Board = ReturnType<typeof useBoard>